@@ -1,18 +1,41 @@
+import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import Chat from "@/pages/chat";
+import MemoryPage from "@/pages/memory";
+import UsagePage from "@/pages/usage";
+import ApiKeysPage from "@/pages/api-keys";
+import AuthPage from "@/pages/auth-page";
+import NotFound from "@/pages/not-found";
+
+function Router() {
+  return (
+    <Switch>
+      <ProtectedRoute path="/" component={Chat} />
+      <ProtectedRoute path="/memory" component={MemoryPage} />
+      <ProtectedRoute path="/usage" component={UsagePage} />
+      <ProtectedRoute path="/api-keys" component={ApiKeysPage} />
+      <Route path="/auth" component={AuthPage} />
+      <Route component={NotFound} />
+    </Switch>
+  );
+}
 
 function App() {
   return (
     <ThemeProvider defaultTheme="light" storageKey="chatbot-theme">
       <QueryClientProvider client={queryClient}>
-        <TooltipProvider>
-          <Toaster />
-          <Chat />
-        </TooltipProvider>
+        <AuthProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </AuthProvider>
       </QueryClientProvider>
     </ThemeProvider>
   );
@@ -1,5 +1,5 @@
 import { useState, useRef, KeyboardEvent } from "react";
-import { Send } from "lucide-react";
+import { Send, Square } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
@@ -7,9 +7,10 @@ import { Label } from "@/components/ui/label";
 interface ChatInputProps {
   onSendMessage: (content: string) => void;
   isLoading: boolean;
+  onCancel?: () => void;
 }
 
-export function ChatInput({ onSendMessage, isLoading }: ChatInputProps) {
+export function ChatInput({ onSendMessage, isLoading, onCancel }: ChatInputProps) {
   const [message, setMessage] = useState("");
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -59,19 +60,32 @@ export function ChatInput({ onSendMessage, isLoading }: ChatInputProps) {
               />
             </div>
             
-            <Button
-              onClick={handleSubmit}
-              disabled={!message.trim() || isLoading}
-              size="sm"
-              className="shrink-0 h-10 w-10 sm:h-12 sm:w-12 p-0 rounded-xl bg-gradient-to-br from-primary to-primary/90 hover:from-primary/90 hover:to-primary shadow-lg hover:shadow-xl transition-all duration-300 disabled:opacity-50"
-              data-testid="button-send-message"
-            >
-              {isLoading ? (
-                <div className="animate-spin rounded-full h-3 w-3 sm:h-4 sm:w-4 border-2 border-primary-foreground/30 border-t-primary-foreground" />
-              ) : (
-                <Send className="h-3 w-3 sm:h-4 sm:w-4" />
-              )}
-            </Button>
+            {isLoading && onCancel ? (
+              <Button
+                onClick={onCancel}
+                size="sm"
+                variant="outline"
+                className="shrink-0 h-10 w-10 sm:h-12 sm:w-12 p-0 rounded-xl shadow-lg transition-all duration-300"
+                title="Stop generating"
+                data-testid="button-stop-generation"
+              >
+                <Square className="h-3 w-3 sm:h-4 sm:w-4 fill-current" />
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSubmit}
+                disabled={!message.trim() || isLoading}
+                size="sm"
+                className="shrink-0 h-10 w-10 sm:h-12 sm:w-12 p-0 rounded-xl bg-gradient-to-br from-primary to-primary/90 hover:from-primary/90 hover:to-primary shadow-lg hover:shadow-xl transition-all duration-300 disabled:opacity-50"
+                data-testid="button-send-message"
+              >
+                {isLoading ? (
+                  <div className="animate-spin rounded-full h-3 w-3 sm:h-4 sm:w-4 border-2 border-primary-foreground/30 border-t-primary-foreground" />
+                ) : (
+                  <Send className="h-3 w-3 sm:h-4 sm:w-4" />
+                )}
+              </Button>
+            )}
           </div>
         </div>
       </div>
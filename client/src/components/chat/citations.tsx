@@ -0,0 +1,92 @@
+import { Fragment } from "react";
+import { FileText, MessageSquare } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { MessageSource } from "@shared/schema";
+
+// Messages written before structured citations hold plain string labels
+export function getCitableSources(sources: MessageSource[] | null | undefined): MessageSource[] {
+  return (sources || []).filter((source) => typeof source === "object" && source !== null);
+}
+
+function SourcePopover({ source, children }: { source: MessageSource; children: React.ReactNode }) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-80 space-y-2" data-testid={`popover-source-${source.index}`}>
+        <div className="flex items-start gap-2">
+          {source.documentName ? (
+            <FileText className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+          ) : (
+            <MessageSquare className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+          )}
+          <p className="text-sm font-medium leading-snug">
+            [{source.index}] {source.title}
+          </p>
+        </div>
+        <p className="text-xs text-muted-foreground whitespace-pre-wrap max-h-48 overflow-y-auto">
+          {source.snippet}
+        </p>
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>{source.documentName ? "Document" : "Saved conversation"}</span>
+          <span>
+            {source.keywordMatch && source.similarity === 0 ? "Keyword match" : `${(source.similarity * 100).toFixed(0)}% match`}
+            {source.timestamp && ` · ${new Date(source.timestamp).toLocaleDateString()}`}
+          </span>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function CitationChip({ source }: { source: MessageSource }) {
+  return (
+    <SourcePopover source={source}>
+      <button
+        type="button"
+        className="inline-flex items-center justify-center min-w-[1.25rem] h-4 px-1 mx-0.5 align-text-top text-[10px] font-semibold rounded bg-primary/10 text-primary hover:bg-primary/20 transition-colors"
+        data-testid={`citation-${source.index}`}
+      >
+        {source.index}
+      </button>
+    </SourcePopover>
+  );
+}
+
+// Render answer text with [n] markers replaced by clickable citation chips
+export function CitedContent({ content, sources }: { content: string; sources: MessageSource[] }) {
+  if (sources.length === 0) return <>{content}</>;
+
+  const byIndex = new Map(sources.map((source) => [source.index, source]));
+  const parts = content.split(/(\[\d+\])/);
+
+  return (
+    <>
+      {parts.map((part, i) => {
+        const match = part.match(/^\[(\d+)\]$/);
+        const source = match ? byIndex.get(Number(match[1])) : undefined;
+        return source ? <CitationChip key={i} source={source} /> : <Fragment key={i}>{part}</Fragment>;
+      })}
+    </>
+  );
+}
+
+export function SourceList({ sources }: { sources: MessageSource[] }) {
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1.5 pt-2 mt-2 border-t border-border/30" data-testid="source-list">
+      {sources.map((source) => (
+        <SourcePopover key={source.index} source={source}>
+          <button
+            type="button"
+            className="inline-flex items-center gap-1 max-w-[14rem] px-2 py-0.5 text-xs rounded-full border border-border/50 bg-muted/40 text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+            data-testid={`source-chip-${source.index}`}
+          >
+            <span className="font-semibold text-primary">{source.index}</span>
+            <span className="truncate">{source.title}</span>
+          </button>
+        </SourcePopover>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 interface ConnectionStatusProps {
   status?: {
-    milvus: boolean;
+    vectorStore: boolean;
+    vectorStoreType: string;
     openai: boolean;
   };
 }
@@ -8,10 +9,10 @@ interface ConnectionStatusProps {
 export function ConnectionStatus({ status }: ConnectionStatusProps) {
   const services = [
     {
-      name: "Milvus Vector DB",
+      name: `${status?.vectorStoreType ?? "Vector"} Vector DB`,
       icon: "fas fa-database",
-      connected: status?.milvus,
-      key: "milvus",
+      connected: status?.vectorStore,
+      key: "vector-store",
     },
     {
       name: "OpenAI API",
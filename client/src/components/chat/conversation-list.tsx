@@ -0,0 +1,157 @@
+import { useState, KeyboardEvent } from "react";
+import { Plus, MessageSquare, Pencil, Archive, ArchiveRestore, Trash2, ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { Conversation } from "@shared/schema";
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  archivedConversations: Conversation[];
+  activeConversationId?: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  onDelete: (id: string) => void;
+  isCreating: boolean;
+}
+
+export function ConversationList({
+  conversations,
+  archivedConversations,
+  activeConversationId,
+  onSelect,
+  onCreate,
+  onRename,
+  onArchive,
+  onDelete,
+  isCreating,
+}: ConversationListProps) {
+  const [editingId, setEditingId] = useState<string>();
+  const [editingTitle, setEditingTitle] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(undefined);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      commitEditing();
+    } else if (e.key === "Escape") {
+      setEditingId(undefined);
+    }
+  };
+
+  const renderConversation = (conversation: Conversation) => {
+    const isActive = conversation.id === activeConversationId;
+
+    if (editingId === conversation.id) {
+      return (
+        <div key={conversation.id} className="px-1 py-1">
+          <Input
+            autoFocus
+            value={editingTitle}
+            onChange={(e) => setEditingTitle(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={commitEditing}
+            className="h-8 text-sm"
+            data-testid={`input-rename-conversation-${conversation.id}`}
+          />
+        </div>
+      );
+    }
+
+    return (
+      <div
+        key={conversation.id}
+        className={`group flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-colors ${
+          isActive ? "bg-primary/10 text-primary" : "hover:bg-muted/50 text-foreground"
+        }`}
+        onClick={() => onSelect(conversation.id)}
+        data-testid={`conversation-${conversation.id}`}
+      >
+        <MessageSquare className="h-3.5 w-3.5 shrink-0" />
+        <span className="flex-1 truncate text-sm">{conversation.title}</span>
+        <div className="hidden group-hover:flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+          {!conversation.archived && (
+            <button
+              onClick={() => startEditing(conversation)}
+              className="p-1 rounded hover:bg-muted"
+              title="Rename"
+              data-testid={`button-rename-conversation-${conversation.id}`}
+            >
+              <Pencil className="h-3 w-3" />
+            </button>
+          )}
+          <button
+            onClick={() => onArchive(conversation.id, !conversation.archived)}
+            className="p-1 rounded hover:bg-muted"
+            title={conversation.archived ? "Unarchive" : "Archive"}
+            data-testid={`button-archive-conversation-${conversation.id}`}
+          >
+            {conversation.archived ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+          </button>
+          <button
+            onClick={() => onDelete(conversation.id)}
+            className="p-1 rounded hover:bg-destructive/10 text-destructive"
+            title="Delete"
+            data-testid={`button-delete-conversation-${conversation.id}`}
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onCreate}
+        disabled={isCreating}
+        className="w-full justify-start gap-2"
+        data-testid="button-new-conversation"
+      >
+        <Plus className="h-4 w-4" />
+        New chat
+      </Button>
+
+      <div className="space-y-1 max-h-72 overflow-y-auto">
+        {conversations.length === 0 && (
+          <p className="text-xs text-muted-foreground px-3 py-2">No conversations yet</p>
+        )}
+        {conversations.map(renderConversation)}
+      </div>
+
+      {archivedConversations.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="flex items-center gap-1 px-3 py-1 text-xs text-muted-foreground hover:text-foreground"
+            data-testid="button-toggle-archived"
+          >
+            {showArchived ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            Archived ({archivedConversations.length})
+          </button>
+          {showArchived && (
+            <div className="space-y-1 mt-1 max-h-40 overflow-y-auto opacity-80">
+              {archivedConversations.map(renderConversation)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useRef, ChangeEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FileText, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { KnowledgeDocument } from "@shared/schema";
+
+const ACCEPTED_TYPES = ".txt,.md,.markdown,.html,.htm,.pdf,text/plain,text/markdown,text/html,application/pdf";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function DocumentsPanel() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: documents = [] } = useQuery<KnowledgeDocument[]>({
+    queryKey: ["/api/documents"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      // Multipart body, so apiRequest (JSON only) can't be used here
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/documents", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ message: response.statusText }));
+        throw new Error(error.message);
+      }
+      return response.json() as Promise<KnowledgeDocument>;
+    },
+    onSuccess: (document) => {
+      invalidate();
+      toast({
+        title: "✓ Document added",
+        description: `${document.filename} was indexed as ${document.chunkCount} chunks.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "⚠️ Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/documents/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "✓ Document removed",
+        description: "The document and its chunks were deleted.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "⚠️ Error",
+        description: "Failed to delete document",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      uploadMutation.mutate(file);
+    }
+    // Allow re-selecting the same file after a failed upload
+    e.target.value = "";
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ACCEPTED_TYPES}
+        onChange={handleFileChange}
+        className="hidden"
+        data-testid="input-document-upload"
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full justify-start gap-2"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={uploadMutation.isPending}
+        data-testid="button-upload-document"
+      >
+        <Upload className="w-4 h-4" />
+        {uploadMutation.isPending ? "Indexing..." : "Upload document"}
+      </Button>
+      <p className="text-xs text-muted-foreground">Text, Markdown, HTML or PDF up to 10MB</p>
+
+      {documents.length > 0 && (
+        <div className="space-y-1">
+          {documents.map((document) => (
+            <div
+              key={document.id}
+              className="group flex items-center gap-2 px-2 py-2 rounded-lg hover:bg-muted/50 transition-colors"
+              data-testid={`document-${document.id}`}
+            >
+              <FileText className="w-4 h-4 text-muted-foreground shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-foreground truncate" title={document.filename}>
+                  {document.filename}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {document.chunkCount} chunks · {formatSize(document.size)} · {new Date(document.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => deleteMutation.mutate(document.id)}
+                disabled={deleteMutation.isPending}
+                className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-destructive/10 transition-opacity"
+                title="Delete document"
+                data-testid={`button-delete-document-${document.id}`}
+              >
+                <Trash2 className="w-3.5 h-3.5 text-destructive" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
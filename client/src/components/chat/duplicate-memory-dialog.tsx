@@ -0,0 +1,59 @@
+import { Copy, GitMerge, Replace } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { DuplicateMatch, DuplicateResolution } from "@shared/schema";
+
+interface DuplicateMemoryDialogProps {
+  matches: DuplicateMatch[] | null;
+  onResolve: (resolution: DuplicateResolution) => void;
+  onCancel: () => void;
+  isLoading: boolean;
+}
+
+export function DuplicateMemoryDialog({ matches, onResolve, onCancel, isLoading }: DuplicateMemoryDialogProps) {
+  return (
+    <Dialog open={!!matches} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Similar Memory Found</DialogTitle>
+          <DialogDescription>
+            This answer is nearly the same as {matches?.length === 1 ? "a memory" : "memories"} already saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {matches?.map((match) => (
+            <div key={match.id} className="p-3 rounded-md border border-border/50 bg-muted/30 space-y-1" data-testid={`duplicate-${match.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium truncate">{match.query}</p>
+                <span className="text-xs text-muted-foreground shrink-0">{(match.similarity * 100).toFixed(0)}% match</span>
+              </div>
+              <p className="text-xs text-muted-foreground whitespace-pre-wrap">{match.snippet}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="text-xs text-muted-foreground space-y-1">
+          <p><span className="font-medium text-foreground">Merge</span> combines them into this answer.</p>
+          <p><span className="font-medium text-foreground">Replace</span> removes the existing {matches?.length === 1 ? "memory" : "memories"} and saves this answer.</p>
+          <p><span className="font-medium text-foreground">Keep both</span> saves this answer alongside.</p>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onResolve("keep_both")} disabled={isLoading} data-testid="button-duplicate-keep-both">
+            <Copy className="w-4 h-4 mr-1" />
+            Keep both
+          </Button>
+          <Button variant="outline" onClick={() => onResolve("replace")} disabled={isLoading} data-testid="button-duplicate-replace">
+            <Replace className="w-4 h-4 mr-1" />
+            Replace
+          </Button>
+          <Button onClick={() => onResolve("merge")} disabled={isLoading} data-testid="button-duplicate-merge">
+            <GitMerge className="w-4 h-4 mr-1" />
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,8 @@
 import { useState } from "react";
+import { Brain, EyeOff, Save, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-
-interface MemoryDecision {
-  action: "auto_save" | "prompt_user" | "skip";
-  reason: string;
-  confidence: number;
-}
+import type { MemoryDecision } from "@shared/schema";
 
 interface MemorySuggestionProps {
   memoryDecision: MemoryDecision;
@@ -40,7 +36,7 @@ export function MemorySuggestion({ memoryDecision, onDecision, isLoading }: Memo
       <CardContent className="p-4">
         <div className="flex items-start gap-3">
           <div className="w-8 h-8 rounded-full bg-accent/20 flex items-center justify-center">
-            <i className="fas fa-brain text-accent text-sm"></i>
+            <Brain className="w-4 h-4 text-accent" />
           </div>
           
           <div className="flex-1">
@@ -63,7 +59,7 @@ export function MemorySuggestion({ memoryDecision, onDecision, isLoading }: Memo
                 className="bg-accent hover:bg-accent/90 text-accent-foreground"
                 data-testid="button-save-to-memory"
               >
-                <i className="fas fa-save text-xs mr-1"></i>
+                <Save className="w-3 h-3 mr-1" />
                 Save to Memory
               </Button>
               
@@ -74,7 +70,7 @@ export function MemorySuggestion({ memoryDecision, onDecision, isLoading }: Memo
                 disabled={isLoading}
                 data-testid="button-skip-memory"
               >
-                <i className="fas fa-times text-xs mr-1"></i>
+                <X className="w-3 h-3 mr-1" />
                 Don't Save
               </Button>
               
@@ -85,7 +81,7 @@ export function MemorySuggestion({ memoryDecision, onDecision, isLoading }: Memo
                 className="text-muted-foreground"
                 data-testid="button-dismiss-suggestion"
               >
-                <i className="fas fa-eye-slash text-xs"></i>
+                <EyeOff className="w-3 h-3" />
               </Button>
             </div>
           </div>
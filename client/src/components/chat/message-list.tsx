@@ -3,27 +3,46 @@ import { Card } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
-import { Bot, User, Copy, Loader2, Check, X } from "lucide-react";
-
-interface ChatMessage {
-  id: string;
-  content: string;
-  role: 'user' | 'assistant';
-  timestamp: Date;
-  sources?: string[];
-  savedToVector?: boolean;
-}
+import { Bot, User, Copy, Loader2, Check, X, AlertTriangle, HelpCircle, Search } from "lucide-react";
+import { CitedContent, SourceList, getCitableSources } from "@/components/chat/citations";
+import type { ChatMessage, ChatResponseMetadata, MemoryStatus, MessageSource } from "@shared/schema";
 
 interface MessageListProps {
   messages: ChatMessage[];
   isLoading: boolean;
   onToggleVectorSave: (messageId: string, saveToVector: boolean) => void;
+  // Viewers see what was saved but can't change it
+  canSaveToMemory?: boolean;
   isUpdating: boolean;
   isTyping: boolean;
   updatingMessageId?: string;
+  streamingContent?: string;
+  streamingSources?: MessageSource[];
+  memoryStatus?: Record<string, MemoryStatus>;
+  // Details of the responses generated in this session, by assistant message ID
+  responseMetadata?: Record<string, ChatResponseMetadata>;
 }
 
-export function MessageList({ messages, isLoading, onToggleVectorSave, isUpdating, isTyping, updatingMessageId }: MessageListProps) {
+const MEMORY_STATUS_LABELS: Record<MemoryStatus, { label: string; title: string; className: string }> = {
+  stored: { label: "In memory", title: "All vectors for this answer are in the store", className: "text-green-600 dark:text-green-400" },
+  partial: { label: "Partly missing", title: "Some vectors for this answer are missing from the store", className: "text-amber-600 dark:text-amber-400" },
+  missing: { label: "Missing", title: "This answer is marked saved but is not in the store", className: "text-destructive" },
+  unverified: { label: "Unverified", title: "Saved before vector IDs were recorded, or the store is offline", className: "text-muted-foreground" },
+};
+
+function MemoryStatusBadge({ messageId, status }: { messageId: string; status: MemoryStatus }) {
+  const { label, title, className } = MEMORY_STATUS_LABELS[status];
+  const Icon = status === "stored" ? Check : status === "unverified" ? HelpCircle : AlertTriangle;
+
+  return (
+    <span className={`flex items-center gap-1 text-xs ${className}`} title={title} data-testid={`memory-status-${messageId}`}>
+      <Icon className="w-3 h-3" />
+      {label}
+    </span>
+  );
+}
+
+export function MessageList({ messages, isLoading, onToggleVectorSave, canSaveToMemory = true, isUpdating, isTyping, updatingMessageId, streamingContent, streamingSources = [], memoryStatus, responseMetadata }: MessageListProps) {
   if (isLoading) {
     return (
       <div className="flex-1 overflow-y-auto p-6 space-y-4">
@@ -56,76 +75,124 @@ export function MessageList({ messages, isLoading, onToggleVectorSave, isUpdatin
           </div>
         )}
       
-        {messages.map((message) => (
-          <div
-            key={message.id}
-            className={`flex gap-3 group ${
-              message.role === "user" ? "flex-row-reverse" : ""
-            }`}
-          >
-            <Avatar className="w-8 h-8 shrink-0">
-              <AvatarFallback className={message.role === "user" ? "bg-primary text-primary-foreground" : "bg-muted"}>
-                {message.role === "user" ? (
-                  <User className="h-4 w-4" />
-                ) : (
-                  <Bot className="h-4 w-4" />
-                )}
-              </AvatarFallback>
-            </Avatar>
-            
-            <div className={`flex-1 max-w-[75%] ${
-              message.role === "user" ? "flex flex-col items-end" : ""
-            }`}>
-              <Card className={message.role === "user" ? "bg-primary text-primary-foreground" : "bg-card"}>
-                <div className="p-3">
-                  <div className="text-sm leading-relaxed whitespace-pre-wrap" data-testid={`message-content-${message.id}`}>
-                    {message.content}
-                  </div>
+        {messages.map((message) => {
+          const sources = message.role === "assistant" ? getCitableSources(message.sources) : [];
+          return (
+            <div
+              key={message.id}
+              className={`flex gap-3 group ${
+                message.role === "user" ? "flex-row-reverse" : ""
+              }`}
+            >
+              <Avatar className="w-8 h-8 shrink-0">
+                <AvatarFallback className={message.role === "user" ? "bg-primary text-primary-foreground" : "bg-muted"}>
+                  {message.role === "user" ? (
+                    <User className="h-4 w-4" />
+                  ) : (
+                    <Bot className="h-4 w-4" />
+                  )}
+                </AvatarFallback>
+              </Avatar>
               
-                  {message.role === "assistant" && (
-                    <div className="flex items-center justify-between pt-2 mt-2 border-t border-border/30">
-                      <div className="flex items-center space-x-2">
-                        <div className="relative">
-                          <input
-                            type="checkbox"
-                            id={`save-${message.id}`}
-                            checked={message.savedToVector || false}
-                            onChange={(e) => onToggleVectorSave(message.id, e.target.checked)}
-                            disabled={isUpdating && updatingMessageId === message.id}
-                            className={`w-3 h-3 ${
+              <div className={`flex-1 max-w-[75%] ${
+                message.role === "user" ? "flex flex-col items-end" : ""
+              }`}>
+                <Card className={message.role === "user" ? "bg-primary text-primary-foreground" : "bg-card"}>
+                  <div className="p-3">
+                    <div className="text-sm leading-relaxed whitespace-pre-wrap" data-testid={`message-content-${message.id}`}>
+                      <CitedContent content={message.content} sources={sources} />
+                    </div>
+
+                    <SourceList sources={sources} />
+
+                    {responseMetadata?.[message.id]?.rewrittenQuery && (
+                      <p
+                        className="flex items-center gap-1 pt-2 text-xs text-muted-foreground"
+                        title="Your message was rewritten into this standalone query before searching memory"
+                        data-testid={`rewritten-query-${message.id}`}
+                      >
+                        <Search className="w-3 h-3 shrink-0" />
+                        <span className="truncate">Searched memory for “{responseMetadata[message.id].rewrittenQuery}”</span>
+                      </p>
+                    )}
+                
+                    {message.role === "assistant" && (
+                      <div className="flex items-center justify-between pt-2 mt-2 border-t border-border/30">
+                        <div className="flex items-center space-x-2">
+                          <div className="relative">
+                            <input
+                              type="checkbox"
+                              id={`save-${message.id}`}
+                              checked={message.savedToVector || false}
+                              onChange={(e) => onToggleVectorSave(message.id, e.target.checked)}
+                              disabled={!canSaveToMemory || (isUpdating && updatingMessageId === message.id)}
+                              className={`w-3 h-3 ${
+                                isUpdating && updatingMessageId === message.id ? 'opacity-50' : ''
+                              }`}
+                              data-testid={`checkbox-save-${message.id}`}
+                            />
+                            {isUpdating && updatingMessageId === message.id && (
+                              <Loader2 className="w-3 h-3 absolute -top-0.5 -right-0.5 animate-spin text-primary" />
+                            )}
+                          </div>
+                          <Label 
+                            htmlFor={`save-${message.id}`} 
+                            className={`text-xs cursor-pointer text-muted-foreground ${
                               isUpdating && updatingMessageId === message.id ? 'opacity-50' : ''
                             }`}
-                            data-testid={`checkbox-save-${message.id}`}
-                          />
-                          {isUpdating && updatingMessageId === message.id && (
-                            <Loader2 className="w-3 h-3 absolute -top-0.5 -right-0.5 animate-spin text-primary" />
+                          >
+                            {isUpdating && updatingMessageId === message.id ? 'Saving...' : 'Save to RAG'}
+                          </Label>
+                          {message.savedToVector && memoryStatus?.[message.id] && !(isUpdating && updatingMessageId === message.id) && (
+                            <MemoryStatusBadge messageId={message.id} status={memoryStatus[message.id]} />
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          {responseMetadata?.[message.id]?.tokens && (
+                            <span title={describeTokens(responseMetadata[message.id])} data-testid={`tokens-${message.id}`}>
+                              ~{responseMetadata[message.id].tokens.total.toLocaleString()} tokens
+                              {responseMetadata[message.id].usage && ` · $${responseMetadata[message.id].usage!.cost.toFixed(4)}`}
+                            </span>
                           )}
+                          <span>{formatTime(message.timestamp)}</span>
                         </div>
-                        <Label 
-                          htmlFor={`save-${message.id}`} 
-                          className={`text-xs cursor-pointer text-muted-foreground ${
-                            isUpdating && updatingMessageId === message.id ? 'opacity-50' : ''
-                          }`}
-                        >
-                          {isUpdating && updatingMessageId === message.id ? 'Saving...' : 'Save to RAG'}
-                        </Label>
                       </div>
-                      <span className="text-xs text-muted-foreground">{formatTime(message.timestamp)}</span>
-                    </div>
-                  )}
-              
-                  {message.role === "user" && (
-                    <p className="text-xs mt-2 text-primary-foreground/70">
-                      {formatTime(message.timestamp)}
-                    </p>
-                  )}
+                    )}
+                
+                    {message.role === "user" && (
+                      <p className="text-xs mt-2 text-primary-foreground/70">
+                        {formatTime(message.timestamp)}
+                      </p>
+                    )}
+                  </div>
+                </Card>
+              </div>
+            </div>
+          );
+        })}
+      
+        {isTyping && streamingContent && (
+          <div className="flex gap-3" data-testid="message-streaming">
+            <Avatar className="w-8 h-8 shrink-0">
+              <AvatarFallback className="bg-muted">
+                <Bot className="h-4 w-4" />
+              </AvatarFallback>
+            </Avatar>
+            
+            <div className="flex-1 max-w-[75%]">
+              <Card className="bg-card">
+                <div className="p-3">
+                  <div className="text-sm leading-relaxed whitespace-pre-wrap">
+                    <CitedContent content={streamingContent} sources={streamingSources} />
+                    <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-primary/60 animate-pulse" />
+                  </div>
                 </div>
               </Card>
             </div>
           </div>
-        ))}
-      
-        {isTyping && (
+        )}
+
+        {isTyping && !streamingContent && (
           <div className="flex gap-3">
             <Avatar className="w-8 h-8 shrink-0">
               <AvatarFallback className="bg-muted">
@@ -153,6 +220,28 @@ export function MessageList({ messages, isLoading, onToggleVectorSave, isUpdatin
   );
 }
 
+function describeTokens({ tokens, usage }: ChatResponseMetadata): string {
+  const lines = [
+    `Estimated tokens for ${tokens.model} (${tokens.contextWindow.toLocaleString()} window)`,
+    `System prompt: ${tokens.systemPrompt}`,
+    `History: ${tokens.history}`,
+    `Retrieved context: ${tokens.context}`,
+    `Message: ${tokens.query}`,
+    `Reserved for answer: ${tokens.reservedOutput}`,
+  ];
+  if (tokens.droppedHistory > 0 || tokens.droppedContext > 0 || tokens.trimmedContext > 0) {
+    lines.push(`To fit: dropped ${tokens.droppedHistory} history and ${tokens.droppedContext} context items, trimmed ${tokens.trimmedContext}`);
+  }
+  if (usage) {
+    lines.push(
+      "",
+      `Used${usage.estimated ? " (estimated)" : ""}: ${usage.inputTokens} in, ${usage.outputTokens} out, ${usage.embeddingTokens} embedding`,
+      `Estimated cost: $${usage.cost.toFixed(5)}`,
+    );
+  }
+  return lines.join("\n");
+}
+
 function formatTime(timestamp: Date | null | undefined): string {
   if (!timestamp) return "Unknown time";
   
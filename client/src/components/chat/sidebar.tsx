@@ -1,6 +1,11 @@
+import { ConversationList } from "@/components/chat/conversation-list";
+import { DocumentsPanel } from "@/components/chat/documents-panel";
+import type { Conversation } from "@shared/schema";
+
 interface SidebarProps {
   connectionStatus?: {
-    pinecone: boolean;
+    vectorStore: boolean;
+    vectorStoreType: string;
     openai: boolean;
   };
   dbStats?: {
@@ -16,9 +21,20 @@ interface SidebarProps {
   setMaxContextLength: (value: number) => void;
   onClearDatabase: () => void;
   clearingDatabase: boolean;
-  onSearchSimilar: () => void;
+  // Viewers can't change memory settings or clear data
+  readOnly?: boolean;
+  onSearchSimilar?: () => void;
   onClose?: () => void;
   isOpen?: boolean;
+  conversations: Conversation[];
+  archivedConversations: Conversation[];
+  activeConversationId?: string;
+  onSelectConversation: (id: string) => void;
+  onCreateConversation: () => void;
+  onRenameConversation: (id: string, title: string) => void;
+  onArchiveConversation: (id: string, archived: boolean) => void;
+  onDeleteConversation: (id: string) => void;
+  creatingConversation: boolean;
 }
 
 export function Sidebar({
@@ -32,10 +48,20 @@ export function Sidebar({
   setMaxContextLength,
   onClearDatabase,
   clearingDatabase,
+  readOnly = false,
   onClose,
+  conversations,
+  archivedConversations,
+  activeConversationId,
+  onSelectConversation,
+  onCreateConversation,
+  onRenameConversation,
+  onArchiveConversation,
+  onDeleteConversation,
+  creatingConversation,
 }: SidebarProps) {
   return (
-    <div className="w-80 h-screen bg-card/95 backdrop-blur-sm border-r border-border/50 flex flex-col shadow-xl">
+    <div className="w-80 h-screen bg-card/95 backdrop-blur-sm border-r border-border/50 flex flex-col shadow-xl overflow-y-auto">
       {/* Header */}
       <div className="p-6 border-b border-border/50">
         <div className="flex items-center justify-between">
@@ -60,6 +86,36 @@ export function Sidebar({
         </div>
       </div>
 
+      {/* Conversations */}
+      <div className="p-4 border-b border-border/50">
+        <h3 className="text-sm font-medium text-foreground mb-4 flex items-center gap-2">
+          <i className="fas fa-comments text-primary text-xs"></i>
+          Conversations
+        </h3>
+
+        <ConversationList
+          conversations={conversations}
+          archivedConversations={archivedConversations}
+          activeConversationId={activeConversationId}
+          onSelect={onSelectConversation}
+          onCreate={onCreateConversation}
+          onRename={onRenameConversation}
+          onArchive={onArchiveConversation}
+          onDelete={onDeleteConversation}
+          isCreating={creatingConversation}
+        />
+      </div>
+
+      {/* Knowledge documents */}
+      <div className="p-4 border-b border-border/50">
+        <h3 className="text-sm font-medium text-foreground mb-4 flex items-center gap-2">
+          <i className="fas fa-book text-primary text-xs"></i>
+          Knowledge
+        </h3>
+
+        <DocumentsPanel />
+      </div>
+
       {/* Connection Status */}
       <div className="p-4 border-b border-border/50">
         <h3 className="text-sm font-medium text-foreground mb-4 flex items-center gap-2">
@@ -73,12 +129,19 @@ export function Sidebar({
               <div className="w-8 h-8 bg-accent/10 rounded-lg flex items-center justify-center">
                 <i className="fas fa-vector-square text-accent text-xs"></i>
               </div>
-              <span className="text-sm text-foreground font-medium">Vector Storage</span>
+              <div>
+                <span className="text-sm text-foreground font-medium block">Vector Storage</span>
+                {connectionStatus?.vectorStoreType && (
+                  <span className="text-xs text-muted-foreground" data-testid="text-vector-store-type">
+                    {connectionStatus.vectorStoreType}
+                  </span>
+                )}
+              </div>
             </div>
             <div className="flex items-center gap-2">
-              <div className={`w-2 h-2 rounded-full ${connectionStatus?.pinecone ? 'bg-accent' : 'bg-destructive'} status-indicator`}></div>
-              <span className={`text-xs font-medium ${connectionStatus?.pinecone ? 'text-accent' : 'text-destructive'}`}>
-                {connectionStatus?.pinecone ? 'Connected' : 'Disconnected'}
+              <div className={`w-2 h-2 rounded-full ${connectionStatus?.vectorStore ? 'bg-accent' : 'bg-destructive'} status-indicator`}></div>
+              <span className={`text-xs font-medium ${connectionStatus?.vectorStore ? 'text-accent' : 'text-destructive'}`}>
+                {connectionStatus?.vectorStore ? 'Connected' : 'Disconnected'}
               </span>
             </div>
           </div>
@@ -115,7 +178,7 @@ export function Sidebar({
                   <i className="fas fa-save text-accent text-xs"></i>
                   Auto-save
                 </label>
-                <p className="text-xs text-muted-foreground mt-1">Save responses automatically</p>
+                <p className="text-xs text-muted-foreground mt-1">Save answers worth remembering automatically</p>
               </div>
               <label className="relative inline-flex items-center cursor-pointer">
                 <input
@@ -123,6 +186,7 @@ export function Sidebar({
                   className="sr-only peer"
                   checked={autoSave}
                   onChange={(e) => setAutoSave(e.target.checked)}
+                  disabled={readOnly}
                   data-testid="toggle-auto-save"
                 />
                 <div className="w-11 h-6 bg-muted border-2 border-transparent peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-accent"></div>
@@ -137,16 +201,17 @@ export function Sidebar({
                 Similarity
               </label>
               <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-md font-medium" data-testid="text-similarity-value">
-                {similarityThreshold}
+                {similarityThreshold.toFixed(2)}
               </span>
             </div>
             <input
               type="range"
               min="0"
               max="1"
-              step="0.1"
+              step="0.05"
               value={similarityThreshold}
               onChange={(e) => setSimilarityThreshold(Number(e.target.value))}
+              disabled={readOnly}
               className="w-full h-2 bg-muted/50 rounded-lg appearance-none cursor-pointer slider"
               data-testid="slider-similarity-threshold"
             />
@@ -164,6 +229,7 @@ export function Sidebar({
             <select
               value={maxContextLength}
               onChange={(e) => setMaxContextLength(Number(e.target.value))}
+              disabled={readOnly}
               className="w-full px-3 py-2 text-sm bg-input border border-border/50 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
               data-testid="select-max-context"
             >
@@ -218,7 +284,7 @@ export function Sidebar({
         <div className="mt-6 space-y-2">
           <button
             onClick={onClearDatabase}
-            disabled={clearingDatabase}
+            disabled={clearingDatabase || readOnly}
             className="w-full px-4 py-3 text-sm bg-destructive/10 text-destructive border border-destructive/20 rounded-lg hover:bg-destructive/20 transition-all duration-200 disabled:opacity-50 button-hover-lift"
             data-testid="button-clear-database"
           >
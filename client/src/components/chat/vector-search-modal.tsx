@@ -1,12 +1,16 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, ChevronLeft, ChevronRight, FileText, Link, Search } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { apiRequest } from "@/lib/queryClient";
 
+const PAGE_SIZE = 10;
+
 interface VectorSearchModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -21,8 +25,19 @@ interface SearchResult {
   sources: string[];
   similarity: number;
   timestamp: string;
+  documentId?: string;
+  documentName?: string;
+}
+
+interface SearchResponse {
+  results: SearchResult[];
+  offset: number;
+  limit: number;
+  hasMore: boolean;
 }
 
+type KindFilter = "all" | "conversation" | "document";
+
 export function VectorSearchModal({
   isOpen,
   onClose,
@@ -30,30 +45,51 @@ export function VectorSearchModal({
   setSimilarityThreshold,
 }: VectorSearchModalProps) {
   const [searchQuery, setSearchQuery] = useState("");
-  const [hasSearched, setHasSearched] = useState(false);
+  const [submittedQuery, setSubmittedQuery] = useState("");
+  const [kind, setKind] = useState<KindFilter>("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [page, setPage] = useState(0);
 
-  const { data: searchResults = [], isLoading, error } = useQuery({
-    queryKey: ["/api/search-similar", searchQuery, similarityThreshold],
-    enabled: hasSearched && searchQuery.length > 0,
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["/api/search-similar", submittedQuery, similarityThreshold, kind, fromDate, toDate, page],
+    enabled: submittedQuery.length > 0,
     queryFn: async () => {
       const response = await apiRequest("POST", "/api/search-similar", {
-        query: searchQuery,
+        query: submittedQuery,
         threshold: similarityThreshold,
-        limit: 10,
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE,
+        filters: {
+          kind: kind === "all" ? undefined : kind,
+          from: fromDate || undefined,
+          // Include the whole end day
+          to: toDate ? `${toDate}T23:59:59.999` : undefined,
+        },
       });
-      return response.json() as Promise<SearchResult[]>;
+      return response.json() as Promise<SearchResponse>;
     },
   });
+  const searchResults = data?.results ?? [];
+  const hasSearched = submittedQuery.length > 0;
 
   const handleSearch = () => {
     if (searchQuery.trim()) {
-      setHasSearched(true);
+      setSubmittedQuery(searchQuery.trim());
+      setPage(0);
     }
   };
 
+  // Any filter change starts again from the first page
+  const withFirstPage = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
   const handleClose = () => {
     setSearchQuery("");
-    setHasSearched(false);
+    setSubmittedQuery("");
+    setPage(0);
     onClose();
   };
 
@@ -62,8 +98,8 @@ export function VectorSearchModal({
       <DialogContent className="max-w-2xl max-h-[80vh] overflow-hidden">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
-            <i className="fas fa-search text-primary"></i>
-            Search Similar Responses
+            <Search className="h-4 w-4 text-primary" />
+            Search Memory
           </DialogTitle>
           <p className="text-sm text-muted-foreground">
             Find similar responses using vector similarity search
@@ -79,20 +115,58 @@ export function VectorSearchModal({
               onKeyDown={(e) => e.key === "Enter" && handleSearch()}
               data-testid="input-search-query"
             />
-            <Button onClick={handleSearch} disabled={!searchQuery.trim()}>
+            <Button onClick={handleSearch} disabled={!searchQuery.trim()} data-testid="button-search">
               Search
             </Button>
           </div>
 
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="search-kind" className="text-xs">Type</Label>
+              <Select value={kind} onValueChange={withFirstPage((value: string) => setKind(value as KindFilter))}>
+                <SelectTrigger id="search-kind" className="h-9" data-testid="select-search-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="conversation">Conversations</SelectItem>
+                  <SelectItem value="document">Documents</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="search-from" className="text-xs">From</Label>
+              <Input
+                id="search-from"
+                type="date"
+                className="h-9"
+                value={fromDate}
+                onChange={(e) => withFirstPage(setFromDate)(e.target.value)}
+                data-testid="input-search-from"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="search-to" className="text-xs">To</Label>
+              <Input
+                id="search-to"
+                type="date"
+                className="h-9"
+                value={toDate}
+                onChange={(e) => withFirstPage(setToDate)(e.target.value)}
+                data-testid="input-search-to"
+              />
+            </div>
+          </div>
+
           <div>
-            <Label>Similarity Threshold: {similarityThreshold}</Label>
+            <Label>Similarity Threshold: {similarityThreshold.toFixed(2)}</Label>
             <input
               type="range"
               min="0"
               max="1"
               step="0.05"
               value={similarityThreshold}
-              onChange={(e) => setSimilarityThreshold(Number(e.target.value))}
+              onChange={(e) => withFirstPage(setSimilarityThreshold)(Number(e.target.value))}
               className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer mt-2"
               data-testid="slider-search-threshold"
             />
@@ -102,7 +176,7 @@ export function VectorSearchModal({
             </div>
           </div>
 
-          <div className="max-h-96 overflow-y-auto space-y-3">
+          <div className="max-h-80 overflow-y-auto space-y-3">
             {isLoading && (
               <div className="space-y-3">
                 {[...Array(3)].map((_, i) => (
@@ -117,7 +191,7 @@ export function VectorSearchModal({
 
             {error && (
               <div className="text-center py-8">
-                <i className="fas fa-exclamation-triangle text-destructive text-2xl mb-2"></i>
+                <AlertTriangle className="h-6 w-6 text-destructive mx-auto mb-2" />
                 <p className="text-sm text-destructive">
                   Error searching: {(error as Error).message}
                 </p>
@@ -126,7 +200,7 @@ export function VectorSearchModal({
 
             {hasSearched && !isLoading && !error && searchResults.length === 0 && (
               <div className="text-center py-8">
-                <i className="fas fa-search text-muted-foreground text-2xl mb-2"></i>
+                <Search className="h-6 w-6 text-muted-foreground mx-auto mb-2" />
                 <p className="text-sm text-muted-foreground">
                   No similar responses found. Try adjusting your query or lowering the similarity threshold.
                 </p>
@@ -143,9 +217,16 @@ export function VectorSearchModal({
                     {formatSearchTime(result.timestamp)}
                   </span>
                 </div>
-                <p className="text-sm text-muted-foreground mb-2">
-                  <strong>Query:</strong> {result.query}
-                </p>
+                {result.documentName ? (
+                  <p className="text-sm text-muted-foreground mb-2 flex items-center gap-1">
+                    <FileText className="h-3 w-3 shrink-0" />
+                    <strong>Document:</strong> {result.documentName}
+                  </p>
+                ) : (
+                  <p className="text-sm text-muted-foreground mb-2">
+                    <strong>Query:</strong> {result.query}
+                  </p>
+                )}
                 <p className="text-sm text-foreground">
                   {result.response.length > 200 
                     ? result.response.substring(0, 200) + "..." 
@@ -154,7 +235,7 @@ export function VectorSearchModal({
                 </p>
                 {result.sources.length > 0 && (
                   <div className="mt-2 flex items-center gap-1">
-                    <i className="fas fa-link text-secondary text-xs"></i>
+                    <Link className="h-3 w-3 text-secondary" />
                     <span className="text-xs text-muted-foreground">
                       {result.sources.length} source{result.sources.length !== 1 ? 's' : ''}
                     </span>
@@ -163,6 +244,32 @@ export function VectorSearchModal({
               </div>
             ))}
           </div>
+
+          {hasSearched && (page > 0 || data?.hasMore) && (
+            <div className="flex items-center justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0 || isLoading}
+                data-testid="button-search-previous"
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <span className="text-xs text-muted-foreground">Page {page + 1}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={!data?.hasMore || isLoading}
+                data-testid="button-search-next"
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
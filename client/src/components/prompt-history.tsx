@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PromptDiff, PromptDiffLine, PromptVersion } from "@shared/schema";
+
+const DIFF_LINE_STYLES: Record<PromptDiffLine["type"], string> = {
+  same: "text-muted-foreground",
+  added: "bg-green-500/10 text-green-700 dark:text-green-400",
+  removed: "bg-red-500/10 text-red-700 dark:text-red-400 line-through",
+};
+const DIFF_LINE_MARKERS: Record<PromptDiffLine["type"], string> = { same: " ", added: "+", removed: "-" };
+
+// What a version changed compared to the one before it
+function PromptVersionDiff({ id }: { id: number }) {
+  const { data: diff, isLoading, error } = useQuery<PromptDiff>({
+    queryKey: ["/api/prompt-versions", id, "diff"],
+  });
+
+  if (isLoading) return <p className="text-xs text-muted-foreground">Loading changes...</p>;
+  if (error || !diff) {
+    return <p className="text-xs text-destructive">Couldn't load changes: {(error as Error)?.message.replace(/^\d+: /, "")}</p>;
+  }
+
+  return (
+    <div className="rounded-md border border-border/50 bg-muted/30 p-2 font-mono text-xs overflow-x-auto" data-testid={`prompt-diff-${id}`}>
+      {diff.lines.map((line, index) => (
+        <div key={index} className={`whitespace-pre-wrap ${DIFF_LINE_STYLES[line.type]}`}>
+          {DIFF_LINE_MARKERS[line.type]} {line.text || " "}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Admin-only history of the shared system prompt, with the changes each version made
+// and a button to restore it. Restoring refetches the settings, so the dialog shows it.
+export function PromptHistory() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [expandedId, setExpandedId] = useState<number>();
+
+  const { data: versions = [], isLoading } = useQuery<PromptVersion[]>({
+    queryKey: ["/api/prompt-versions"],
+    refetchOnMount: "always",
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/prompt-versions/${id}/rollback`, {});
+      return response.json() as Promise<PromptVersion>;
+    },
+    onSuccess: (restored) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/prompt-versions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "✓ Prompt Restored",
+        description: `Version ${restored.restoredFrom} is the system prompt again`,
+        duration: 3000,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "⚠️ Rollback Failed",
+        description: error.message.replace(/^\d+: /, ""),
+        variant: "destructive",
+        duration: 5000,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm">Shared Prompt History</Label>
+      {isLoading && <p className="text-xs text-muted-foreground">Loading versions...</p>}
+      <div className="max-h-64 overflow-y-auto space-y-2">
+        {versions.map((version, index) => (
+          <div key={version.id} className="rounded-md border border-border/50 p-2 space-y-2" data-testid={`prompt-version-${version.id}`}>
+            <div className="flex items-center justify-between gap-2">
+              <button
+                type="button"
+                className="flex items-center gap-1 min-w-0 text-left"
+                onClick={() => setExpandedId(expandedId === version.id ? undefined : version.id)}
+                data-testid={`button-prompt-diff-${version.id}`}
+              >
+                {expandedId === version.id ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+                <span className="text-xs font-mono shrink-0">v{version.id}</span>
+                <span className="text-xs text-muted-foreground truncate">
+                  {version.authorName ?? "unknown"} · {new Date(version.createdAt).toLocaleString()}
+                  {version.note && ` · ${version.note}`}
+                </span>
+              </button>
+              {index === 0 ? (
+                <Badge variant="secondary" className="text-xs shrink-0">Current</Badge>
+              ) : (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 shrink-0"
+                  onClick={() => rollbackMutation.mutate(version.id)}
+                  disabled={rollbackMutation.isPending}
+                  title="Make this the system prompt again"
+                  data-testid={`button-restore-prompt-${version.id}`}
+                >
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Restore
+                </Button>
+              )}
+            </div>
+            {expandedId === version.id && <PromptVersionDiff id={version.id} />}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
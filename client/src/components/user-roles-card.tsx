@@ -0,0 +1,87 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { PublicUser, UserRole } from "@shared/schema";
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: "Shared settings and roles",
+  member: "Own chats, memory and personal settings",
+  viewer: "Chat and browse only",
+};
+const ROLES = Object.keys(ROLE_DESCRIPTIONS) as UserRole[];
+
+// Admin-only list of accounts with a role picker for each
+export function UserRolesCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+    refetchOnMount: "always",
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      const response = await apiRequest("PATCH", `/api/users/${id}/role`, { role });
+      return response.json() as Promise<PublicUser>;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      // An admin may have changed their own role
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "✓ Role Updated",
+        description: `${updated.username} is now ${updated.role}`,
+        duration: 3000,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "⚠️ Role Not Updated",
+        description: error.message.replace(/^\d+: /, ""),
+        variant: "destructive",
+        duration: 5000,
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium">Users</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading && <p className="text-xs text-muted-foreground">Loading users...</p>}
+        {users.map((user) => (
+          <div key={user.id} className="flex items-center justify-between gap-4" data-testid={`user-${user.id}`}>
+            <div className="min-w-0">
+              <p className="text-sm truncate">
+                {user.username}
+                {user.id === currentUser?.id && <span className="text-xs text-muted-foreground"> (you)</span>}
+              </p>
+              <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[user.role]}</p>
+            </div>
+            <Select
+              value={user.role}
+              onValueChange={(role) => updateRoleMutation.mutate({ id: user.id, role: role as UserRole })}
+              disabled={updateRoleMutation.isPending}
+            >
+              <SelectTrigger className="w-28 h-8" data-testid={`select-role-${user.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>{role}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
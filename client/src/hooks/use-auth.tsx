@@ -0,0 +1,93 @@
+import { createContext, useContext } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PublicUser } from "@shared/schema";
+
+type Credentials = { username: string; password: string };
+
+type AuthContextState = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  registerMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextState | null>(null);
+
+// Server errors arrive as "<status>: <json body>"
+function errorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Everything else in the cache belongs to whoever was signed in before
+  const signedIn = (user: PublicUser) => {
+    queryClient.clear();
+    queryClient.setQueryData(["/api/user"], user);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return await res.json() as PublicUser;
+    },
+    onSuccess: signedIn,
+    onError: (error: Error) => {
+      toast({ title: "⚠️ Sign In Failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return await res.json() as PublicUser;
+    },
+    onSuccess: signedIn,
+    onError: (error: Error) => {
+      toast({ title: "⚠️ Registration Failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "⚠️ Sign Out Failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{ user: user ?? null, isLoading, loginMutation, registerMutation, logoutMutation }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
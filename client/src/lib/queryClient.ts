@@ -23,6 +23,56 @@ export async function apiRequest(
   return res;
 }
 
+export interface StreamEvent {
+  event: string;
+  data: unknown;
+}
+
+// POST a JSON body and dispatch each Server-Sent Event of the response as it arrives.
+// E describes the events the endpoint sends, usually a union discriminated by event;
+// events not named in `events` are skipped rather than dispatched as an E.
+export async function streamRequest<E extends StreamEvent = StreamEvent>(
+  url: string,
+  data: unknown,
+  events: readonly E["event"][],
+  onEvent: (message: E) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(data),
+    credentials: "include",
+    signal,
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) return;
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const chunks = buffer.split("\n\n");
+    buffer = chunks.pop() || "";
+
+    for (const chunk of chunks) {
+      let event = "message";
+      let payload = "";
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("event: ")) event = line.slice(7);
+        else if (line.startsWith("data: ")) payload += line.slice(6);
+      }
+      if (payload && events.includes(event)) onEvent({ event, data: JSON.parse(payload) } as E);
+    }
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
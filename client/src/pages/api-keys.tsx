@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Copy, KeyRound, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { ApiKeyScope, CreatedApiKey, PublicApiKey } from "@shared/schema";
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  chat: "Conversations and messages",
+  "memory:read": "Search and list memories and documents",
+  "memory:write": "Save, edit and delete memories and documents",
+  admin: "Everything, including settings",
+};
+const SCOPES = Object.keys(SCOPE_DESCRIPTIONS) as ApiKeyScope[];
+
+// Days until expiry; "never" keeps the key until it is revoked
+const EXPIRY_OPTIONS = ["30", "90", "365", "never"] as const;
+
+function formatDate(value: string | Date | null): string {
+  return value ? new Date(value).toLocaleDateString() : "—";
+}
+
+function isExpired(apiKey: PublicApiKey): boolean {
+  return !!apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date();
+}
+
+export default function ApiKeysPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState(new Set<ApiKeyScope>(["chat"]));
+  const [expiry, setExpiry] = useState<string>("90");
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey>();
+
+  const { data: apiKeys = [], isLoading, error } = useQuery<PublicApiKey[]>({
+    queryKey: ["/api/api-keys"],
+    // Last-used times change whenever a script calls the API
+    refetchOnMount: "always",
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/api-keys", {
+        name: name.trim(),
+        scopes: Array.from(scopes),
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      });
+      return res.json() as Promise<CreatedApiKey>;
+    },
+    onSuccess: (created) => {
+      setCreatedKey(created);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "⚠️ Key Not Created",
+        description: error.message.replace(/^\d+: /, ""),
+        variant: "destructive",
+        duration: 4000,
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/api-keys/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      toast({
+        title: "✓ Key Revoked",
+        description: "Requests using this key are now rejected.",
+        duration: 3000,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "⚠️ Revoke Failed",
+        description: error.message.replace(/^\d+: /, ""),
+        variant: "destructive",
+        duration: 4000,
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    const next = new Set(scopes);
+    if (checked) next.add(scope);
+    else next.delete(scope);
+    setScopes(next);
+  };
+
+  const handleRevoke = (apiKey: PublicApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Scripts using it will stop working.`)) return;
+    revokeMutation.mutate(apiKey.id);
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey.key);
+    toast({ title: "✓ Copied", description: "The key is on your clipboard.", duration: 2000 });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b border-border bg-card">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/">
+              <Button variant="ghost" size="sm" title="Back to chat" data-testid="link-back-to-chat">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div className="w-8 h-8 bg-primary rounded flex items-center justify-center">
+              <KeyRound className="h-4 w-4 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold">API Keys</h1>
+              <p className="text-xs text-muted-foreground">Call the chat and memory API from scripts with a Bearer key</p>
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 py-4 space-y-4">
+        <Card className="p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="api-key-name" className="text-xs">Name</Label>
+              <Input
+                id="api-key-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. CI bot"
+                maxLength={100}
+                data-testid="input-api-key-name"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="api-key-expiry" className="text-xs">Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="api-key-expiry" data-testid="select-api-key-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option === "never" ? "Never" : `In ${option} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {SCOPES.map((scope) => (
+              <div key={scope} className="flex items-start gap-2">
+                <Checkbox
+                  id={`scope-${scope}`}
+                  checked={scopes.has(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  disabled={scope === "admin" && user?.role !== "admin"}
+                  data-testid={`checkbox-scope-${scope}`}
+                />
+                <div className="space-y-0.5">
+                  <Label htmlFor={`scope-${scope}`} className="text-sm font-mono">{scope}</Label>
+                  <p className="text-xs text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-muted-foreground">
+              A key acts as you, so it can never do more than your {user?.role ?? "member"} role allows.
+            </p>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || scopes.size === 0 || createMutation.isPending}
+              data-testid="button-create-api-key"
+            >
+              {createMutation.isPending ? "Creating..." : "Create Key"}
+            </Button>
+          </div>
+        </Card>
+
+        {error && (
+          <p className="text-sm text-destructive text-center py-8">
+            Error loading API keys: {(error as Error).message.replace(/^\d+: /, "")}
+          </p>
+        )}
+
+        <Card>
+          {isLoading ? (
+            <div className="p-4 space-y-2">
+              <Skeleton className="h-8 w-full" />
+              <Skeleton className="h-8 w-full" />
+            </div>
+          ) : apiKeys.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">No API keys yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Last used</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {apiKeys.map((apiKey) => (
+                  <TableRow key={apiKey.id} data-testid={`api-key-${apiKey.id}`}>
+                    <TableCell>{apiKey.name}</TableCell>
+                    <TableCell className="font-mono text-xs">{apiKey.prefix}…</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {apiKey.scopes.map((scope) => (
+                          <Badge key={scope} variant="secondary" className="font-mono text-xs">{scope}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatDate(apiKey.createdAt)}</TableCell>
+                    <TableCell>{apiKey.lastUsedAt ? formatDate(apiKey.lastUsedAt) : "Never"}</TableCell>
+                    <TableCell>
+                      {isExpired(apiKey) ? (
+                        <Badge variant="destructive" className="text-xs">Expired</Badge>
+                      ) : apiKey.expiresAt ? formatDate(apiKey.expiresAt) : "Never"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(apiKey)}
+                        disabled={revokeMutation.isPending}
+                        title="Revoke key"
+                        data-testid={`button-revoke-${apiKey.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+
+        <p className="text-xs text-muted-foreground">
+          Send the key as <code className="font-mono">Authorization: Bearer &lt;key&gt;</code>, for example to
+          {" "}<code className="font-mono">POST /api/messages</code> or <code className="font-mono">POST /api/search-similar</code>.
+          OpenAI clients can use the key with base URL <code className="font-mono">{window.location.origin}/v1</code>.
+        </p>
+      </div>
+
+      <Dialog open={!!createdKey} onOpenChange={(open) => !open && setCreatedKey(undefined)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Key Created</DialogTitle>
+            <DialogDescription>
+              Copy the key now - it is stored hashed and won't be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="p-3 rounded-md border border-border/50 bg-muted/30 font-mono text-xs break-all" data-testid="text-created-api-key">
+            {createdKey?.key}
+          </div>
+          <DialogFooter>
+            <Button onClick={handleCopy} data-testid="button-copy-api-key">
+              <Copy className="w-4 h-4 mr-1" />
+              Copy
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Loader2, MessageSquare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useAuth } from "@/hooks/use-auth";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+function CredentialsForm({
+  mode,
+  onSubmit,
+  isPending,
+}: {
+  mode: "login" | "register";
+  onSubmit: (credentials: { username: string; password: string }) => void;
+  isPending: boolean;
+}) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const tooShort = mode === "register" && password.length > 0 && password.length < MIN_PASSWORD_LENGTH;
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit({ username: username.trim(), password });
+      }}
+    >
+      <div className="space-y-1">
+        <Label htmlFor={`${mode}-username`}>Username</Label>
+        <Input
+          id={`${mode}-username`}
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          data-testid={`input-${mode}-username`}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${mode}-password`}>Password</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={mode === "register" ? "new-password" : "current-password"}
+          data-testid={`input-${mode}-password`}
+        />
+        {tooShort && (
+          <p className="text-xs text-muted-foreground">At least {MIN_PASSWORD_LENGTH} characters</p>
+        )}
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isPending || !username.trim() || !password || tooShort}
+        data-testid={`button-${mode}`}
+      >
+        {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {mode === "login" ? "Sign in" : "Create account"}
+      </Button>
+    </form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <div className="flex justify-end p-3">
+        <ThemeToggle />
+      </div>
+      <div className="flex-1 flex items-center justify-center px-4 pb-16">
+        <Card className="w-full max-w-sm p-6 space-y-6">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 bg-primary rounded flex items-center justify-center">
+              <MessageSquare className="h-4 w-4 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold">AI Assistant</h1>
+              <p className="text-xs text-muted-foreground">Your conversations and memories are private to your account</p>
+            </div>
+          </div>
+
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login" data-testid="tab-login">Sign in</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login" className="pt-4">
+              <CredentialsForm
+                mode="login"
+                onSubmit={(credentials) => loginMutation.mutate(credentials)}
+                isPending={loginMutation.isPending}
+              />
+            </TabsContent>
+            <TabsContent value="register" className="pt-4">
+              <CredentialsForm
+                mode="register"
+                onSubmit={(credentials) => registerMutation.mutate(credentials)}
+                isPending={registerMutation.isPending}
+              />
+            </TabsContent>
+          </Tabs>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,70 +1,198 @@
 import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Settings, MessageSquare, Search, Menu, Trash2 } from "lucide-react";
+import { Link } from "wouter";
+import { Settings, MessageSquare, Search, Menu, Trash2, Database, BarChart3, KeyRound, LogOut } from "lucide-react";
 import { MessageList } from "@/components/chat/message-list";
 import { ChatInput } from "@/components/chat/chat-input";
+import { VectorSearchModal } from "@/components/chat/vector-search-modal";
+import { MemorySuggestion } from "@/components/chat/memory-suggestion";
+import { DuplicateMemoryDialog } from "@/components/chat/duplicate-memory-dialog";
+import { Sidebar } from "@/components/chat/sidebar";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { UserRolesCard } from "@/components/user-roles-card";
+import { PromptHistory } from "@/components/prompt-history";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, streamRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-// Define ChatMessage interface locally since we removed shared schema
-interface ChatMessage {
-  id: string;
-  content: string;
-  role: 'user' | 'assistant';
-  timestamp: Date;
-  sources?: string[];
-  savedToVector?: boolean;
-}
+import { useAuth } from "@/hooks/use-auth";
+import type {
+  ChatMessage,
+  ChatResponseMetadata,
+  Conversation,
+  DuplicateCheck,
+  DuplicateMatch,
+  DuplicateResolution,
+  MemoryDecision,
+  MemoryStatus,
+  MessageSource,
+} from "@shared/schema";
+
+type LLMProvider = "openai" | "openai-compatible" | "mock";
+type ChunkStrategy = "fixed" | "sentence" | "markdown";
+type ThresholdStrategy = "adaptive" | "fixed";
+type MemoryClassifier = "heuristic" | "llm";
+type RerankerType = "none" | "lexical" | "llm";
 
 interface ChatResponse {
   userMessage: ChatMessage;
   assistantMessage: ChatMessage;
-  sources: Array<{ name: string; content: string; url?: string }>;
+  sources: MessageSource[];
+  cancelled?: boolean;
+  memoryDecision: MemoryDecision | null;
+  metadata?: ChatResponseMetadata;
 }
 
+// Server-Sent Events of the streaming messages endpoint
+type ChatStreamEvent =
+  | { event: "user"; data: ChatMessage }
+  | { event: "sources"; data: { sources: MessageSource[] } }
+  | { event: "delta"; data: { delta: string } }
+  | { event: "done"; data: ChatResponse }
+  | { event: "error"; data: { message: string } };
+const CHAT_STREAM_EVENTS: ChatStreamEvent["event"][] = ["user", "sources", "delta", "done", "error"];
+
 export default function Chat() {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchThreshold, setSearchThreshold] = useState(0.25);
   const [temperature, setTemperature] = useState<number | undefined>(undefined);
   const [model, setModel] = useState<string>("");
   const [maxTokens, setMaxTokens] = useState<number | undefined>(undefined);
+  const [contextWindow, setContextWindow] = useState<number | undefined>(undefined);
   const [isTyping, setIsTyping] = useState(false);
   const [updatingMessageId, setUpdatingMessageId] = useState<string>();
+  const [activeConversationId, setActiveConversationId] = useState<string>();
+  const [streamingContent, setStreamingContent] = useState<string>();
+  const [streamingSources, setStreamingSources] = useState<MessageSource[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [autoSave, setAutoSave] = useState(false);
+  // Save the dialog's values as the signed-in user's overrides rather than globally
+  const [savePersonal, setSavePersonal] = useState(false);
+  const [memoryClassifier, setMemoryClassifier] = useState<MemoryClassifier>("heuristic");
+  // The latest answer the classifier wants the user to decide on
+  const [memorySuggestion, setMemorySuggestion] = useState<{ messageId: string; decision: MemoryDecision }>();
+  const [duplicateThreshold, setDuplicateThreshold] = useState(0.9);
+  // Edited as JSON text and parsed on save
+  const [modelPrices, setModelPrices] = useState("");
+  const [responseMetadata, setResponseMetadata] = useState<Record<string, ChatResponseMetadata>>({});
+  const [queryRewrite, setQueryRewrite] = useState(false);
+  const [queryRewriteTurns, setQueryRewriteTurns] = useState<number | undefined>(undefined);
+  const [historyMessages, setHistoryMessages] = useState<number | undefined>(undefined);
+  const [historyTokenBudget, setHistoryTokenBudget] = useState<number | undefined>(undefined);
+  // A save that found near-duplicates and waits for the user to pick a resolution
+  const [pendingDuplicates, setPendingDuplicates] = useState<{ messageId: string; matches: DuplicateMatch[] }>();
+  const [similarityThreshold, setSimilarityThreshold] = useState(0.25);
+  const [maxContextLength, setMaxContextLength] = useState(4096);
+  const [thresholdStrategy, setThresholdStrategy] = useState<ThresholdStrategy>("adaptive");
+  const [topK, setTopK] = useState<number | undefined>(undefined);
+  const [maxContextPairs, setMaxContextPairs] = useState<number | undefined>(undefined);
+  const [keywordWeight, setKeywordWeight] = useState(0);
+  const [reranker, setReranker] = useState<RerankerType>("none");
+  const [rerankCandidates, setRerankCandidates] = useState<number | undefined>(undefined);
   
   // Prompt settings state
   const [systemPrompt, setSystemPrompt] = useState("");
+  const [promptNote, setPromptNote] = useState("");
+
+  // LLM provider settings state
+  const [llmProvider, setLlmProvider] = useState<LLMProvider>("openai");
+  const [llmBaseUrl, setLlmBaseUrl] = useState("");
+  const [embeddingModel, setEmbeddingModel] = useState("");
+  const [chunkStrategy, setChunkStrategy] = useState<ChunkStrategy>("sentence");
+  const [chunkSize, setChunkSize] = useState<number | undefined>(undefined);
+  const [chunkOverlap, setChunkOverlap] = useState<number | undefined>(undefined);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
+  // Shared settings are for admins; viewers can't change settings or memory at all
+  const isAdmin = user?.role === "admin";
+  const canEdit = user?.role !== "viewer";
+  const savesPersonal = savePersonal || !isAdmin;
   const queryClient = useQueryClient();
 
-  // Fetch messages
+  // Fetch conversations (active and archived)
+  const { data: conversations = [], isFetched: conversationsFetched } = useQuery<Conversation[]>({
+    queryKey: ["/api/conversations"],
+  });
+
+  const { data: archivedConversations = [] } = useQuery<Conversation[]>({
+    queryKey: ["/api/conversations?archived=true"],
+  });
+
+  // Fetch messages of the active conversation
+  const messagesQueryKey = ["/api/conversations", activeConversationId, "messages"];
   const { data: messages = [], isLoading: messagesLoading } = useQuery<ChatMessage[]>({
-    queryKey: ["/api/messages"],
+    queryKey: messagesQueryKey,
+    enabled: !!activeConversationId,
+  });
+
+  // Check that saved answers are really in the vector store
+  const { data: memoryStatus } = useQuery<Record<string, MemoryStatus>>({
+    queryKey: ["/api/conversations", activeConversationId, "memory-status"],
+    enabled: !!activeConversationId && messages.some((message) => message.savedToVector),
   });
 
   // Fetch connection status
   const { data: connectionStatus } = useQuery<{
-    pinecone: boolean;
+    vectorStore: boolean;
+    vectorStoreType: string;
     openai: boolean;
   }>({
     queryKey: ["/api/status"],
     refetchInterval: 30000,
   });
 
+  // Fetch vector memory statistics
+  const { data: dbStats } = useQuery<{
+    totalResponses: number;
+    collectionSize: string;
+    lastUpdated: string;
+  }>({
+    queryKey: ["/api/stats"],
+  });
+
   // Fetch all settings (system prompt + model configuration)
   const { data: allSettings } = useQuery<{
     systemPrompt: string;
     model: string;
     temperature: number;
     maxTokens: number;
+    contextWindow: number;
+    llmProvider: LLMProvider;
+    llmBaseUrl: string;
+    embeddingModel: string;
+    chunkStrategy: ChunkStrategy;
+    chunkSize: number;
+    chunkOverlap: number;
+    thresholdStrategy: ThresholdStrategy;
+    similarityThreshold: number;
+    topK: number;
+    maxContextPairs: number;
+    keywordWeight: number;
+    reranker: RerankerType;
+    rerankCandidates: number;
+    queryRewrite: boolean;
+    queryRewriteTurns: number;
+    contextTokenBudget: number;
+    historyMessages: number;
+    historyTokenBudget: number;
+    memoryClassifier: MemoryClassifier;
+    autoSave: boolean;
+    duplicateThreshold: number;
+    modelPrices: Record<string, { input: number; output: number }>;
+    personalOverrides: string[];
+    overridableSettings: string[];
   }>({
     queryKey: ["/api/settings"],
   });
@@ -76,23 +204,75 @@ export default function Chat() {
       setModel(allSettings.model);
       setTemperature(allSettings.temperature);
       setMaxTokens(allSettings.maxTokens);
+      setContextWindow(allSettings.contextWindow);
+      setLlmProvider(allSettings.llmProvider);
+      setLlmBaseUrl(allSettings.llmBaseUrl);
+      setEmbeddingModel(allSettings.embeddingModel);
+      setChunkStrategy(allSettings.chunkStrategy);
+      setChunkSize(allSettings.chunkSize);
+      setChunkOverlap(allSettings.chunkOverlap);
+      setThresholdStrategy(allSettings.thresholdStrategy);
+      setSimilarityThreshold(allSettings.similarityThreshold);
+      setTopK(allSettings.topK);
+      setMaxContextPairs(allSettings.maxContextPairs);
+      setKeywordWeight(allSettings.keywordWeight);
+      setReranker(allSettings.reranker);
+      setRerankCandidates(allSettings.rerankCandidates);
+      setQueryRewrite(allSettings.queryRewrite);
+      setQueryRewriteTurns(allSettings.queryRewriteTurns);
+      setHistoryMessages(allSettings.historyMessages);
+      setHistoryTokenBudget(allSettings.historyTokenBudget);
+      setMaxContextLength(allSettings.contextTokenBudget);
+      setMemoryClassifier(allSettings.memoryClassifier);
+      setAutoSave(allSettings.autoSave);
+      setDuplicateThreshold(allSettings.duplicateThreshold);
+      setModelPrices(JSON.stringify(allSettings.modelPrices, null, 2));
     }
   }, [allSettings]);
 
+  // Open the most recent conversation when none is selected
+  useEffect(() => {
+    if (!conversationsFetched) return;
+    const known = [...conversations, ...archivedConversations];
+    if (!activeConversationId || !known.some((c) => c.id === activeConversationId)) {
+      setActiveConversationId(conversations[0]?.id);
+    }
+  }, [conversations, archivedConversations, conversationsFetched, activeConversationId]);
+
+  const invalidateConversations = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/conversations?archived=true"] });
+  };
+
+  const createConversation = async (): Promise<Conversation> => {
+    const response = await apiRequest("POST", "/api/conversations", {});
+    const conversation = (await response.json()) as Conversation;
+    queryClient.setQueryData<Conversation[]>(["/api/conversations"], (old = []) => [conversation, ...old]);
+    setActiveConversationId(conversation.id);
+    return conversation;
+  };
+
   // Send message mutation
   const sendMessageMutation = useMutation({
     mutationFn: async ({ content, saveToVector }: { content: string; saveToVector?: boolean }) => {
+      // Start a conversation on the first message
+      const conversationId = activeConversationId ?? (await createConversation()).id;
+      const queryKey = ["/api/conversations", conversationId, "messages"];
+
       // Instantly add user message to local state
       const userMessage: ChatMessage = {
         id: Date.now().toString(), // Temporary ID
+        conversationId,
         content,
         role: "user",
         timestamp: new Date(),
         sources: [],
+        savedToVector: false,
+        vectorIds: [],
       };
 
       // Optimistically update the query cache
-      queryClient.setQueryData<ChatMessage[]>(["/api/messages"], (oldMessages = []) => [
+      queryClient.setQueryData<ChatMessage[]>(queryKey, (oldMessages = []) => [
         ...oldMessages,
         userMessage,
       ]);
@@ -103,16 +283,79 @@ export default function Chat() {
       setTimeout(scrollToBottom, 50);
 
       // Backend will use database settings directly - no need to send them
-      const response = await apiRequest("POST", "/api/messages", {
-        content,
-        saveToVector: saveToVector,
-      });
-      return response.json() as Promise<ChatResponse>;
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      setStreamingContent("");
+      setStreamingSources([]);
+      setMemorySuggestion(undefined);
+
+      let result: ChatResponse | null = null;
+      let partialContent = "";
+      let partialSources: MessageSource[] = [];
+      try {
+        await streamRequest<ChatStreamEvent>(
+          `/api/conversations/${conversationId}/messages/stream`,
+          { content, saveToVector },
+          CHAT_STREAM_EVENTS,
+          (message) => {
+            if (message.event === "sources") {
+              partialSources = message.data.sources;
+              setStreamingSources(partialSources);
+            } else if (message.event === "delta") {
+              partialContent += message.data.delta;
+              setStreamingContent(partialContent);
+            } else if (message.event === "done") {
+              result = message.data;
+            } else if (message.event === "error") {
+              throw new Error(message.data.message);
+            }
+          },
+          abortController.signal,
+        );
+      } catch (error) {
+        if (!abortController.signal.aborted) throw error;
+
+        // Cancelled - the server keeps the partial answer, show it until the next refresh
+        if (partialContent) {
+          queryClient.setQueryData<ChatMessage[]>(queryKey, (oldMessages = []) => [
+            ...oldMessages,
+            { ...userMessage, id: `${userMessage.id}-partial`, role: "assistant", content: partialContent, sources: partialSources },
+          ]);
+        }
+      } finally {
+        abortControllerRef.current = null;
+      }
+
+      return result as ChatResponse | null;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       setIsTyping(false);
+      setStreamingContent(undefined);
+
+      // A cancelled stream keeps its local partial answer
+      if (!result) {
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+        return;
+      }
+
+      const metadata = result.metadata;
+      if (metadata) {
+        setResponseMetadata((previous) => ({ ...previous, [result.assistantMessage.id]: metadata }));
+      }
+      if (result.memoryDecision?.action === "prompt_user") {
+        setMemorySuggestion({ messageId: result.assistantMessage.id, decision: result.memoryDecision });
+      }
+      if (result.assistantMessage.savedToVector) {
+        toast({
+          title: "✓ Auto-saved to Memory",
+          description: result.memoryDecision?.reason,
+          duration: 3000,
+        });
+      }
+
       // Refresh to get the actual server data with proper IDs
-      queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
       // Ensure scroll after response is received
       setTimeout(() => {
         scrollToBottom();
@@ -120,8 +363,9 @@ export default function Chat() {
     },
     onError: (error) => {
       setIsTyping(false);
+      setStreamingContent(undefined);
       // Remove the optimistic update on error
-      queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
 
       let errorMessage = "An unexpected error occurred";
       if (error.message.includes('401')) {
@@ -148,21 +392,45 @@ export default function Chat() {
 
   // Toggle vector save mutation
   const toggleVectorSaveMutation = useMutation({
-    mutationFn: async ({ messageId, saveToVector }: { messageId: string; saveToVector: boolean }) => {
+    mutationFn: async ({ messageId, saveToVector, duplicateResolution }: {
+      messageId: string;
+      saveToVector: boolean;
+      duplicateResolution?: DuplicateResolution;
+    }) => {
       setUpdatingMessageId(messageId);
       const response = await apiRequest("PATCH", `/api/messages/${messageId}/vector-save`, {
         saveToVector,
+        duplicateResolution,
       });
-      return response.json();
+      return response.json() as Promise<ChatMessage & { duplicateCheck?: DuplicateCheck }>;
     },
     onSuccess: (data, variables) => {
       setUpdatingMessageId(undefined);
-      queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+      setPendingDuplicates(undefined);
+      queryClient.invalidateQueries({ queryKey: messagesQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeConversationId, "memory-status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+
+      // Nothing was saved yet - let the user choose how to handle the duplicates
+      if (data.duplicateCheck?.status === "found") {
+        setPendingDuplicates({ messageId: variables.messageId, matches: data.duplicateCheck.matches });
+        return;
+      }
+
+      const duplicateOutcome = {
+        merged: "Merged with a similar memory",
+        replaced: "Replaced a similar memory",
+        kept_both: "Saved alongside a similar memory",
+      } as const;
+      const status = data.duplicateCheck?.status;
+
       toast({
         title: variables.saveToVector ? "✓ Saved Successfully" : "✓ Removed Successfully",
-        description: variables.saveToVector ? 
-          "Response saved to vector database for future reference" : 
-          "Response removed from vector database",
+        description: !variables.saveToVector
+          ? "Response removed from vector database"
+          : status && status !== "unique"
+            ? duplicateOutcome[status]
+            : "Response saved to vector database for future reference",
         variant: "default",
         duration: 3000,
       });
@@ -178,27 +446,108 @@ export default function Chat() {
     },
   });
 
+  // Create conversation mutation
+  const createConversationMutation = useMutation({
+    mutationFn: createConversation,
+    onSuccess: () => {
+      setIsSidebarOpen(false);
+      invalidateConversations();
+    },
+    onError: () => {
+      toast({
+        title: "⚠️ Create Failed",
+        description: "Failed to start a new conversation. Please try again.",
+        variant: "destructive",
+        duration: 4000,
+      });
+    },
+  });
+
+  // Rename, archive or delete conversation mutation
+  const updateConversationMutation = useMutation({
+    mutationFn: async ({ id, changes }: {
+      id: string;
+      changes: { title?: string; archived?: boolean } | null;
+    }) => {
+      if (changes === null) {
+        await apiRequest("DELETE", `/api/conversations/${id}`);
+      } else {
+        await apiRequest("PATCH", `/api/conversations/${id}`, changes);
+      }
+    },
+    onSuccess: (_data, { id, changes }) => {
+      // Move off a conversation that was just deleted or archived
+      if (id === activeConversationId && (changes === null || changes.archived)) {
+        setActiveConversationId(conversations.find((c) => c.id !== id)?.id);
+      }
+      invalidateConversations();
+    },
+    onError: () => {
+      toast({
+        title: "⚠️ Update Failed",
+        description: "Failed to update conversation. Please try again.",
+        variant: "destructive",
+        duration: 4000,
+      });
+    },
+  });
+
   // Update settings mutation
   const updatePromptsMutation = useMutation({
     mutationFn: async (settings: {
       systemPrompt: string;
+      promptNote?: string;
       model: string;
       temperature: number;
       maxTokens: number;
+      contextWindow?: number;
+      llmProvider: LLMProvider;
+      llmBaseUrl: string;
+      embeddingModel: string;
+      chunkStrategy: ChunkStrategy;
+      chunkSize?: number;
+      chunkOverlap?: number;
+      thresholdStrategy: ThresholdStrategy;
+      topK?: number;
+      maxContextPairs?: number;
+      keywordWeight: number;
+      reranker: RerankerType;
+      rerankCandidates?: number;
+      queryRewrite: boolean;
+      queryRewriteTurns?: number;
+      historyMessages?: number;
+      historyTokenBudget?: number;
+      memoryClassifier: MemoryClassifier;
+      duplicateThreshold: number;
+      modelPrices?: Record<string, { input: number; output: number }>;
     }) => {
-      const response = await apiRequest("PUT", "/api/settings", settings);
+      // Personal saves carry only the settings a user may override
+      const payload = savesPersonal
+        ? {
+            personal: true,
+            ...Object.fromEntries(
+              Object.entries(settings).filter(([key]) => allSettings?.overridableSettings.includes(key))
+            ),
+          }
+        : settings;
+      const response = await apiRequest("PUT", "/api/settings", payload);
       return response.json();
     },
     onSuccess: () => {
       // Auto-close the settings dialog
       setIsSettingsOpen(false);
+      setPromptNote("");
       
       // Invalidate queries to refresh data from database
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/prompt-versions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/status"] });
       
       toast({
         title: "✓ Settings Updated",
-        description: "All settings have been saved successfully",
+        description: savesPersonal
+          ? "Your personal settings have been saved"
+          : "All settings have been saved successfully",
         variant: "default",
         duration: 3000,
       });
@@ -214,6 +563,8 @@ export default function Chat() {
           errorMessage = "Authentication failed. Please refresh the page.";
         } else if (error.message.includes('500')) {
           errorMessage = "Server error. Please try again in a moment.";
+        } else if (error.message.startsWith('400')) {
+          errorMessage = error.message.replace(/^400: /, "");
         }
       }
       
@@ -226,6 +577,74 @@ export default function Chat() {
     },
   });
 
+  const clearPersonalSettingsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/settings/personal");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "✓ Personal Settings Cleared",
+        description: "The shared settings apply to your account again",
+        duration: 3000,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "⚠️ Personal Settings Not Cleared",
+        description: error.message.replace(/^\d+: /, ""),
+        variant: "destructive",
+        duration: 5000,
+      });
+    },
+  });
+
+  // The sidebar controls are saved as soon as they change, for the signed-in user only
+  const updateSidebarSettingsMutation = useMutation({
+    mutationFn: async (changes: { similarityThreshold?: number; contextTokenBudget?: number; autoSave?: boolean }) => {
+      const response = await apiRequest("PUT", "/api/settings", { ...changes, personal: true });
+      return response.json();
+    },
+    onError: (error: Error) => {
+      // Fall back to the stored values
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "⚠️ Setting Not Saved",
+        description: error.message.replace(/^\d+: /, ""),
+        variant: "destructive",
+        duration: 5000,
+      });
+    },
+  });
+
+  const handleSimilarityThresholdChange = (value: number) => {
+    setSimilarityThreshold(value);
+    updateSidebarSettingsMutation.mutate({ similarityThreshold: value });
+  };
+
+  const handleContextLengthChange = (value: number) => {
+    setMaxContextLength(value);
+    updateSidebarSettingsMutation.mutate({ contextTokenBudget: value });
+  };
+
+  const handleAutoSaveChange = (value: boolean) => {
+    setAutoSave(value);
+    updateSidebarSettingsMutation.mutate({ autoSave: value });
+  };
+
+  const handleMemoryDecision = (save: boolean) => {
+    if (save && memorySuggestion) {
+      toggleVectorSaveMutation.mutate({ messageId: memorySuggestion.messageId, saveToVector: true });
+    }
+    setMemorySuggestion(undefined);
+  };
+
+  const handleResolveDuplicates = (duplicateResolution: DuplicateResolution) => {
+    if (!pendingDuplicates) return;
+    toggleVectorSaveMutation.mutate({ messageId: pendingDuplicates.messageId, saveToVector: true, duplicateResolution });
+  };
+
   const handleSendMessage = (content: string) => {
     sendMessageMutation.mutate({
       content,
@@ -233,13 +652,24 @@ export default function Chat() {
     });
   };
 
+  // Start memory searches from the current retrieval threshold
+  const handleOpenSearch = () => {
+    setSearchThreshold(similarityThreshold);
+    setIsSearchOpen(true);
+  };
+
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleClearChat = async () => {
     try {
       // Call the server API to clear messages
       await apiRequest("DELETE", "/api/clear-database");
       
       // Then clear the local cache
-      queryClient.setQueryData<ChatMessage[]>(["/api/messages"], []);
+      setActiveConversationId(undefined);
+      invalidateConversations();
       
       toast({
         title: "✓ Chat Cleared",
@@ -257,6 +687,12 @@ export default function Chat() {
     }
   };
 
+  const handleSelectConversation = (id: string) => {
+    setActiveConversationId(id);
+    setMemorySuggestion(undefined);
+    setIsSidebarOpen(false);
+  };
+
   const handleToggleVectorSave = (messageId: string, saveToVector: boolean) => {
     toggleVectorSaveMutation.mutate({ messageId, saveToVector });
   };
@@ -272,12 +708,46 @@ export default function Chat() {
       });
       return;
     }
+
+    let parsedModelPrices: Record<string, { input: number; output: number }> | undefined;
+    try {
+      parsedModelPrices = modelPrices.trim() ? JSON.parse(modelPrices) : undefined;
+    } catch {
+      toast({
+        title: "⚠️ Invalid Price Table",
+        description: "Model prices must be valid JSON.",
+        variant: "destructive",
+        duration: 4000,
+      });
+      return;
+    }
     
     updatePromptsMutation.mutate({
       systemPrompt,
+      promptNote: promptNote.trim() || undefined,
       model,
       temperature,
       maxTokens,
+      contextWindow,
+      llmProvider,
+      llmBaseUrl,
+      embeddingModel,
+      chunkStrategy,
+      chunkSize,
+      chunkOverlap,
+      thresholdStrategy,
+      topK,
+      maxContextPairs,
+      keywordWeight,
+      reranker,
+      rerankCandidates,
+      queryRewrite,
+      queryRewriteTurns,
+      historyMessages,
+      historyTokenBudget,
+      memoryClassifier,
+      duplicateThreshold,
+      modelPrices: parsedModelPrices,
     });
   };
 
@@ -303,6 +773,13 @@ export default function Chat() {
     }
   }, [messages.length]);
 
+  // Follow the assistant bubble while it streams
+  useEffect(() => {
+    if (streamingContent) {
+      scrollToBottom();
+    }
+  }, [streamingContent]);
+
   // Scroll when typing state changes
   useEffect(() => {
     if (isTyping) {
@@ -315,11 +792,50 @@ export default function Chat() {
 
   return (
     <div className="flex h-screen bg-background">
-      <div className="flex-1 flex flex-col">
+      {isSidebarOpen && (
+        <div className="fixed inset-0 z-30 bg-black/40 lg:hidden" onClick={() => setIsSidebarOpen(false)} />
+      )}
+      <div className={`${isSidebarOpen ? "fixed inset-y-0 left-0 z-40 flex" : "hidden"} lg:static lg:flex`}>
+        <Sidebar
+          connectionStatus={connectionStatus}
+          dbStats={dbStats}
+          autoSave={autoSave}
+          setAutoSave={handleAutoSaveChange}
+          similarityThreshold={similarityThreshold}
+          setSimilarityThreshold={handleSimilarityThresholdChange}
+          maxContextLength={maxContextLength}
+          setMaxContextLength={handleContextLengthChange}
+          onClearDatabase={handleClearChat}
+          clearingDatabase={false}
+          readOnly={!canEdit}
+          onClose={() => setIsSidebarOpen(false)}
+          isOpen={isSidebarOpen}
+          conversations={conversations}
+          archivedConversations={archivedConversations}
+          activeConversationId={activeConversationId}
+          onSelectConversation={handleSelectConversation}
+          onCreateConversation={() => createConversationMutation.mutate()}
+          onRenameConversation={(id, title) => updateConversationMutation.mutate({ id, changes: { title } })}
+          onArchiveConversation={(id, archived) => updateConversationMutation.mutate({ id, changes: { archived } })}
+          onDeleteConversation={(id) => updateConversationMutation.mutate({ id, changes: null })}
+          creatingConversation={createConversationMutation.isPending}
+        />
+      </div>
+
+      <div className="flex-1 flex flex-col min-w-0">
         {/* Header */}
         <div className="px-4 py-3 border-b border-border">
           <div className="max-w-4xl mx-auto flex items-center justify-between">
             <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="lg:hidden"
+                onClick={() => setIsSidebarOpen(true)}
+                data-testid="button-open-sidebar"
+              >
+                <Menu className="h-4 w-4" />
+              </Button>
               <div className="w-8 h-8 bg-primary rounded flex items-center justify-center">
                 <MessageSquare className="h-4 w-4 text-primary-foreground" />
               </div>
@@ -334,21 +850,54 @@ export default function Chat() {
                 connectionStatus?.openai ? "bg-green-500" : "bg-red-500"
               }`} />
               
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={handleClearChat}
-                title="Clear chat"
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleOpenSearch}
+                title="Search memory"
+                data-testid="button-open-search"
               >
-                <Trash2 className="h-4 w-4" />
+                <Search className="h-4 w-4" />
               </Button>
 
+              <Link href="/memory">
+                <Button variant="ghost" size="sm" title="Browse memory" data-testid="link-memory">
+                  <Database className="h-4 w-4" />
+                </Button>
+              </Link>
+
+              <Link href="/usage">
+                <Button variant="ghost" size="sm" title="Token usage" data-testid="link-usage">
+                  <BarChart3 className="h-4 w-4" />
+                </Button>
+              </Link>
+
+              <Link href="/api-keys">
+                <Button variant="ghost" size="sm" title="API keys" data-testid="link-api-keys">
+                  <KeyRound className="h-4 w-4" />
+                </Button>
+              </Link>
+
+              {canEdit && (
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={handleClearChat}
+                  title="Clear all conversations"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+
               <Dialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen}>
-                <DialogTrigger asChild>
-                  <Button variant="ghost" size="sm" data-testid="button-open-settings">
-                    <Settings className="h-4 w-4" />
-                  </Button>
-                </DialogTrigger>
+                {/* Viewers can't change any settings, so the dialog is hidden from them */}
+                {canEdit && (
+                  <DialogTrigger asChild>
+                    <Button variant="ghost" size="sm" data-testid="button-open-settings">
+                      <Settings className="h-4 w-4" />
+                    </Button>
+                  </DialogTrigger>
+                )}
                 <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
                   <DialogHeader>
                     <DialogTitle className="text-lg font-semibold">Settings</DialogTitle>
@@ -371,34 +920,407 @@ export default function Chat() {
                             data-testid="textarea-system-prompt"
                           />
                         </div>
+                        {/* Changes to the shared prompt are versioned; personal prompts aren't */}
+                        {!savesPersonal && (
+                          <div className="space-y-2">
+                            <Label htmlFor="prompt-note" className="text-sm">Change Note</Label>
+                            <Input
+                              id="prompt-note"
+                              placeholder="What changed and why (optional)"
+                              value={promptNote}
+                              onChange={(e) => setPromptNote(e.target.value)}
+                              maxLength={500}
+                              data-testid="input-prompt-note"
+                            />
+                          </div>
+                        )}
+                        {isAdmin && <PromptHistory />}
+                      </CardContent>
+                    </Card>
+
+                    <Card>
+                      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+                        <CardTitle className="text-sm font-medium">Provider</CardTitle>
+                        {!isAdmin && <Badge variant="outline" className="text-xs">Admins only</Badge>}
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <fieldset disabled={!isAdmin} className="space-y-4 disabled:opacity-70">
+                          <div className="space-y-2">
+                            <Label htmlFor="provider-select" className="text-sm">LLM Provider</Label>
+                            <Select value={llmProvider} onValueChange={(value) => setLlmProvider(value as LLMProvider)}>
+                              <SelectTrigger id="provider-select" data-testid="select-llm-provider">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="openai">OpenAI</SelectItem>
+                                <SelectItem value="openai-compatible">OpenAI-compatible (Ollama, vLLM, LM Studio)</SelectItem>
+                                <SelectItem value="mock">Mock (offline testing)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          {llmProvider === "openai-compatible" && (
+                            <div className="space-y-2">
+                              <Label htmlFor="base-url-input" className="text-sm">Base URL</Label>
+                              <Input
+                                id="base-url-input"
+                                placeholder="http://localhost:11434/v1"
+                                value={llmBaseUrl}
+                                onChange={(e) => setLlmBaseUrl(e.target.value)}
+                                data-testid="input-llm-base-url"
+                              />
+                            </div>
+                          )}
+
+                          <div className="space-y-2">
+                            <Label htmlFor="embedding-model-input" className="text-sm">Embedding Model</Label>
+                            <Input
+                              id="embedding-model-input"
+                              placeholder="text-embedding-3-small"
+                              value={embeddingModel}
+                              onChange={(e) => setEmbeddingModel(e.target.value)}
+                              disabled={llmProvider === "mock"}
+                              data-testid="input-embedding-model"
+                            />
+                            <p className="text-xs text-muted-foreground">
+                              Saved memories are only comparable with embeddings from the same model.
+                            </p>
+                          </div>
+                        </fieldset>
                       </CardContent>
                     </Card>
 
                     <Card>
                       <CardHeader className="pb-3">
-                        <CardTitle className="text-sm font-medium">Model Configuration</CardTitle>
+                        <CardTitle className="text-sm font-medium">Retrieval</CardTitle>
                       </CardHeader>
                       <CardContent className="space-y-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="threshold-strategy-select" className="text-sm">Threshold Strategy</Label>
+                          <Select value={thresholdStrategy} onValueChange={(value) => setThresholdStrategy(value as ThresholdStrategy)}>
+                            <SelectTrigger id="threshold-strategy-select" data-testid="select-threshold-strategy">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="adaptive">Adaptive (relaxed for short queries)</SelectItem>
+                              <SelectItem value="fixed">Fixed</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+
                         <div className="grid grid-cols-2 gap-4">
                           <div className="space-y-2">
-                            <Label htmlFor="model-select" className="text-sm">Model</Label>
-                            <Select value={model} onValueChange={setModel}>
-                              <SelectTrigger id="model-select" data-testid="select-model">
+                            <Label htmlFor="top-k-input" className="text-sm">Top K</Label>
+                            <Input
+                              id="top-k-input"
+                              type="number"
+                              min={1}
+                              max={50}
+                              value={topK ?? ""}
+                              onChange={(e) => setTopK(e.target.value === "" ? undefined : Number(e.target.value))}
+                              data-testid="input-top-k"
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="max-context-pairs-input" className="text-sm">Max Context Pairs</Label>
+                            <Input
+                              id="max-context-pairs-input"
+                              type="number"
+                              min={1}
+                              max={20}
+                              value={maxContextPairs ?? ""}
+                              onChange={(e) => setMaxContextPairs(e.target.value === "" ? undefined : Number(e.target.value))}
+                              data-testid="input-max-context-pairs"
+                            />
+                          </div>
+                        </div>
+                        <div className="space-y-2">
+                          <div className="flex justify-between items-center">
+                            <Label htmlFor="keyword-weight-slider" className="text-sm">Keyword Weight</Label>
+                            <span className="text-sm font-mono">{keywordWeight.toFixed(2)}</span>
+                          </div>
+                          <Slider
+                            id="keyword-weight-slider"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={[keywordWeight]}
+                            onValueChange={(value) => setKeywordWeight(value[0])}
+                            className="w-full"
+                            data-testid="slider-keyword-weight"
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            How much exact keyword matches (error codes, SKUs, function names) count against semantic similarity. 0 is vector search only.
+                          </p>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="reranker-select" className="text-sm">Reranker</Label>
+                            <Select value={reranker} onValueChange={(value) => setReranker(value as RerankerType)}>
+                              <SelectTrigger id="reranker-select" data-testid="select-reranker">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">None</SelectItem>
+                                <SelectItem value="lexical">Lexical overlap</SelectItem>
+                                <SelectItem value="llm">LLM</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="rerank-candidates-input" className="text-sm">Rerank Candidates</Label>
+                            <Input
+                              id="rerank-candidates-input"
+                              type="number"
+                              min={1}
+                              max={50}
+                              value={rerankCandidates ?? ""}
+                              onChange={(e) => setRerankCandidates(e.target.value === "" ? undefined : Number(e.target.value))}
+                              disabled={reranker === "none"}
+                              data-testid="input-rerank-candidates"
+                            />
+                          </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          The reranker rescores this many retrieved candidates and keeps the best top K.
+                        </p>
+
+                        <div className="grid grid-cols-2 gap-4 items-end">
+                          <div className="flex items-center justify-between space-x-2 h-10">
+                            <Label htmlFor="query-rewrite-switch" className="text-sm">Rewrite Follow-ups</Label>
+                            <Switch
+                              id="query-rewrite-switch"
+                              checked={queryRewrite}
+                              onCheckedChange={setQueryRewrite}
+                              data-testid="switch-query-rewrite"
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="query-rewrite-turns-input" className="text-sm">Messages Considered</Label>
+                            <Input
+                              id="query-rewrite-turns-input"
+                              type="number"
+                              min={1}
+                              max={20}
+                              value={queryRewriteTurns ?? ""}
+                              onChange={(e) => setQueryRewriteTurns(e.target.value === "" ? undefined : Number(e.target.value))}
+                              disabled={!queryRewrite}
+                              data-testid="input-query-rewrite-turns"
+                            />
+                          </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Follow-up questions are rewritten into standalone search queries using the last few messages before searching memory.
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Similarity threshold and context token budget are set from the sidebar.
+                        </p>
+                      </CardContent>
+                    </Card>
+
+                    <Card>
+                      <CardHeader className="pb-3">
+                        <CardTitle className="text-sm font-medium">Conversation History</CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="history-messages-input" className="text-sm">Recent Messages</Label>
+                            <Input
+                              id="history-messages-input"
+                              type="number"
+                              min={0}
+                              max={50}
+                              value={historyMessages ?? ""}
+                              onChange={(e) => setHistoryMessages(e.target.value === "" ? undefined : Number(e.target.value))}
+                              data-testid="input-history-messages"
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="history-token-budget-input" className="text-sm">Token Budget</Label>
+                            <Input
+                              id="history-token-budget-input"
+                              type="number"
+                              min={0}
+                              max={32768}
+                              step={256}
+                              value={historyTokenBudget ?? ""}
+                              onChange={(e) => setHistoryTokenBudget(e.target.value === "" ? undefined : Number(e.target.value))}
+                              data-testid="input-history-token-budget"
+                            />
+                          </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          The most recent messages of the conversation that fit the budget are sent to the model. Set recent messages to 0 to turn history off.
+                        </p>
+                      </CardContent>
+                    </Card>
+
+                    <Card>
+                      <CardHeader className="pb-3">
+                        <CardTitle className="text-sm font-medium">Memory</CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="memory-classifier-select" className="text-sm">Memory Classifier</Label>
+                          <Select value={memoryClassifier} onValueChange={(value) => setMemoryClassifier(value as MemoryClassifier)}>
+                            <SelectTrigger id="memory-classifier-select" data-testid="select-memory-classifier">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="heuristic">Heuristics</SelectItem>
+                              <SelectItem value="llm">LLM judge</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-muted-foreground">
+                            Decides which answers are worth remembering. With auto-save on in the sidebar, confident decisions are saved automatically.
+                          </p>
+                        </div>
+
+                        <div className="space-y-2">
+                          <div className="flex justify-between items-center">
+                            <Label htmlFor="duplicate-threshold-slider" className="text-sm">Duplicate Threshold</Label>
+                            <span className="text-sm font-mono">{duplicateThreshold.toFixed(2)}</span>
+                          </div>
+                          <Slider
+                            id="duplicate-threshold-slider"
+                            min={0.5}
+                            max={1}
+                            step={0.01}
+                            value={[duplicateThreshold]}
+                            onValueChange={(value) => setDuplicateThreshold(value[0])}
+                            className="w-full"
+                            data-testid="slider-duplicate-threshold"
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Saving an answer this similar to an existing memory asks whether to merge, replace or keep both.
+                          </p>
+                        </div>
+                      </CardContent>
+                    </Card>
+
+                    <Card>
+                      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+                        <CardTitle className="text-sm font-medium">Chunking</CardTitle>
+                        {!isAdmin && <Badge variant="outline" className="text-xs">Admins only</Badge>}
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <fieldset disabled={!isAdmin} className="space-y-4 disabled:opacity-70">
+                          <div className="space-y-2">
+                            <Label htmlFor="chunk-strategy-select" className="text-sm">Strategy</Label>
+                            <Select value={chunkStrategy} onValueChange={(value) => setChunkStrategy(value as ChunkStrategy)}>
+                              <SelectTrigger id="chunk-strategy-select" data-testid="select-chunk-strategy">
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="gpt-5">GPT-5</SelectItem>
-                                <SelectItem value="gpt-5-mini">GPT-5 Mini</SelectItem>
-                                <SelectItem value="gpt-5-nano">GPT-5 Nano</SelectItem>
-                                <SelectItem value="gpt-4.1-mini">GPT-4.1 Mini</SelectItem>
-                                <SelectItem value="gpt-4o">GPT-4o</SelectItem>
-                                <SelectItem value="gpt-4o-mini">GPT-4o Mini</SelectItem>
-                                <SelectItem value="gpt-4-turbo">GPT-4 Turbo</SelectItem>
-                                <SelectItem value="gpt-3.5-turbo">GPT-3.5 Turbo</SelectItem>
+                                <SelectItem value="sentence">Sentence / paragraph aware</SelectItem>
+                                <SelectItem value="markdown">Markdown headings</SelectItem>
+                                <SelectItem value="fixed">Fixed size with overlap</SelectItem>
                               </SelectContent>
                             </Select>
                           </div>
 
+                          <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="chunk-size-input" className="text-sm">Chunk Size</Label>
+                              <Input
+                                id="chunk-size-input"
+                                type="number"
+                                min={100}
+                                max={4000}
+                                step={100}
+                                value={chunkSize ?? ""}
+                                onChange={(e) => setChunkSize(e.target.value === "" ? undefined : Number(e.target.value))}
+                                data-testid="input-chunk-size"
+                              />
+                            </div>
+
+                            <div className="space-y-2">
+                              <Label htmlFor="chunk-overlap-input" className="text-sm">Overlap</Label>
+                              <Input
+                                id="chunk-overlap-input"
+                                type="number"
+                                min={0}
+                                step={50}
+                                value={chunkOverlap ?? ""}
+                                onChange={(e) => setChunkOverlap(e.target.value === "" ? undefined : Number(e.target.value))}
+                                data-testid="input-chunk-overlap"
+                              />
+                            </div>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Characters per chunk for uploaded documents and saved answers. Changes apply to content saved afterwards.
+                          </p>
+                        </fieldset>
+                      </CardContent>
+                    </Card>
+
+                    <Card>
+                      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+                        <CardTitle className="text-sm font-medium">Usage Pricing</CardTitle>
+                        {!isAdmin && <Badge variant="outline" className="text-xs">Admins only</Badge>}
+                      </CardHeader>
+                      <CardContent className="space-y-2">
+                        <fieldset disabled={!isAdmin} className="space-y-2 disabled:opacity-70">
+                          <Label htmlFor="model-prices-textarea" className="text-sm">Model Prices</Label>
+                          <Textarea
+                            id="model-prices-textarea"
+                            value={modelPrices}
+                            onChange={(e) => setModelPrices(e.target.value)}
+                            className="min-h-[160px] font-mono text-xs"
+                            spellCheck={false}
+                            data-testid="textarea-model-prices"
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            USD per million tokens, as {'{ "model": { "input": 0.15, "output": 0.6 } }'}. Embeddings use the input price and unlisted models count as free.
+                            Changes apply to usage recorded afterwards - see the <Link href="/usage" className="underline">usage page</Link>.
+                          </p>
+                        </fieldset>
+                      </CardContent>
+                    </Card>
+
+                    {isAdmin && <UserRolesCard />}
+
+                    <Card>
+                      <CardHeader className="pb-3">
+                        <CardTitle className="text-sm font-medium">Model Configuration</CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="model-select" className="text-sm">Model</Label>
+                            {llmProvider !== "openai" ? (
+                              <Input
+                                id="model-select"
+                                placeholder="llama3.1"
+                                value={model}
+                                onChange={(e) => setModel(e.target.value)}
+                                data-testid="input-model"
+                              />
+                            ) : (
+                              <Select value={model} onValueChange={setModel}>
+                                <SelectTrigger id="model-select" data-testid="select-model">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="gpt-5">GPT-5</SelectItem>
+                                  <SelectItem value="gpt-5-mini">GPT-5 Mini</SelectItem>
+                                  <SelectItem value="gpt-5-nano">GPT-5 Nano</SelectItem>
+                                  <SelectItem value="gpt-4.1-mini">GPT-4.1 Mini</SelectItem>
+                                  <SelectItem value="gpt-4o">GPT-4o</SelectItem>
+                                  <SelectItem value="gpt-4o-mini">GPT-4o Mini</SelectItem>
+                                  <SelectItem value="gpt-4-turbo">GPT-4 Turbo</SelectItem>
+                                  <SelectItem value="gpt-3.5-turbo">GPT-3.5 Turbo</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </div>
+
                           <div className="space-y-2">
                             <Label htmlFor="max-tokens-select" className="text-sm">Max Tokens</Label>
                             <Select value={maxTokens?.toString() || ""} onValueChange={(value) => setMaxTokens(Number(value))}>
@@ -415,6 +1337,22 @@ export default function Chat() {
                           </div>
                         </div>
 
+                        <div className="space-y-2">
+                          <Label htmlFor="context-window-input" className="text-sm">Context Window</Label>
+                          <Input
+                            id="context-window-input"
+                            type="number"
+                            min={0}
+                            step={1024}
+                            value={contextWindow ?? ""}
+                            onChange={(e) => setContextWindow(e.target.value === "" ? undefined : Number(e.target.value))}
+                            data-testid="input-context-window"
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Tokens the model accepts in total. History and retrieved context are cut to fit after reserving max tokens for the answer. 0 uses the model's known window.
+                          </p>
+                        </div>
+
                         <div className="space-y-2">
                           <div className="flex justify-between items-center">
                             <Label htmlFor="temperature-slider" className="text-sm">Temperature</Label>
@@ -432,6 +1370,39 @@ export default function Chat() {
                           />
                         </div>
 
+                        <div className="flex items-center justify-between gap-4">
+                          <div className="space-y-0.5">
+                            <Label htmlFor="save-personal-switch" className="text-sm">Only for My Account</Label>
+                            <p className="text-xs text-muted-foreground">
+                              Save prompt, model, retrieval, history and memory settings as your own overrides. Provider, embedding, chunking and pricing settings are always shared.
+                            </p>
+                          </div>
+                          <Switch
+                            id="save-personal-switch"
+                            checked={savesPersonal}
+                            onCheckedChange={setSavePersonal}
+                            disabled={!isAdmin}
+                            data-testid="switch-save-personal"
+                          />
+                        </div>
+
+                        {(allSettings?.personalOverrides.length ?? 0) > 0 && (
+                          <div className="flex items-center justify-between gap-4">
+                            <p className="text-xs text-muted-foreground">
+                              You override {allSettings?.personalOverrides.length} shared setting{allSettings?.personalOverrides.length === 1 ? "" : "s"}.
+                            </p>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => clearPersonalSettingsMutation.mutate()}
+                              disabled={clearPersonalSettingsMutation.isPending}
+                              data-testid="button-clear-personal-settings"
+                            >
+                              Use Shared Settings
+                            </Button>
+                          </div>
+                        )}
+
                         <Button
                           onClick={handleUpdatePrompts}
                           disabled={updatePromptsMutation.isPending}
@@ -448,6 +1419,22 @@ export default function Chat() {
               </Dialog>
 
               <ThemeToggle />
+
+              {user && (
+                <span className="hidden sm:inline text-xs text-muted-foreground" data-testid="text-username">
+                  {user.username}
+                </span>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                title={user ? `Sign out ${user.username}` : "Sign out"}
+                data-testid="button-logout"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
             </div>
           </div>
         </div>
@@ -457,10 +1444,25 @@ export default function Chat() {
             messages={messages}
             isLoading={messagesLoading}
             onToggleVectorSave={handleToggleVectorSave}
+            canSaveToMemory={canEdit}
             isUpdating={toggleVectorSaveMutation.isPending}
             isTyping={isTyping}
             updatingMessageId={updatingMessageId}
+            streamingContent={streamingContent}
+            streamingSources={streamingSources}
+            memoryStatus={memoryStatus}
+            responseMetadata={responseMetadata}
           />
+          {memorySuggestion && !isTyping && canEdit && (
+            <div className="max-w-4xl mx-auto px-4">
+              <MemorySuggestion
+                key={memorySuggestion.messageId}
+                memoryDecision={memorySuggestion.decision}
+                onDecision={handleMemoryDecision}
+                isLoading={toggleVectorSaveMutation.isPending}
+              />
+            </div>
+          )}
           {/* Scroll anchor */}
           <div ref={messagesEndRef} />
         </div>
@@ -468,8 +1470,23 @@ export default function Chat() {
         <ChatInput
           onSendMessage={handleSendMessage}
           isLoading={sendMessageMutation.isPending}
+          onCancel={handleCancelGeneration}
         />
       </div>
+
+      <DuplicateMemoryDialog
+        matches={pendingDuplicates?.matches ?? null}
+        onResolve={handleResolveDuplicates}
+        onCancel={() => setPendingDuplicates(undefined)}
+        isLoading={toggleVectorSaveMutation.isPending}
+      />
+
+      <VectorSearchModal
+        isOpen={isSearchOpen}
+        onClose={() => setIsSearchOpen(false)}
+        similarityThreshold={searchThreshold}
+        setSimilarityThreshold={setSearchThreshold}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,415 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ArrowLeft, ChevronLeft, ChevronRight, Database, FileText, MessageSquare, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const PAGE_SIZE = 20;
+
+interface Memory {
+  id: string;
+  query: string;
+  response: string;
+  sources: string[];
+  timestamp: string;
+  documentId?: string;
+  documentName?: string;
+  messageId?: string;
+  chunkIndex?: number;
+  chunkCount?: number;
+}
+
+interface MemoryPage {
+  memories: Memory[];
+  nextCursor: string | null;
+}
+
+type KindFilter = "all" | "conversation" | "document";
+
+function invalidateMemory() {
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/memory") });
+  queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+  // Deleting memories can unsave messages
+  queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+}
+
+export default function MemoryPage() {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<KindFilter>("all");
+  const [source, setSource] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  // Cursors of the pages before the current one, for "Previous"
+  const [cursors, setCursors] = useState<string[]>([]);
+  const [cursor, setCursor] = useState<string>();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<Memory>();
+  const [editQuery, setEditQuery] = useState("");
+  const [editResponse, setEditResponse] = useState("");
+
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (cursor) params.set("cursor", cursor);
+  if (kind !== "all") params.set("kind", kind);
+  if (source.trim()) params.set("source", source.trim());
+  if (fromDate) params.set("from", fromDate);
+  // Include the whole end day
+  if (toDate) params.set("to", `${toDate}T23:59:59.999`);
+
+  const { data, isLoading, error } = useQuery<MemoryPage>({
+    queryKey: [`/api/memory?${params.toString()}`],
+  });
+  const memories = data?.memories ?? [];
+
+  // Any filter change starts again from the first page
+  const resetPaging = () => {
+    setCursors([]);
+    setCursor(undefined);
+    setSelectedIds(new Set());
+  };
+
+  const withFirstPage = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    resetPaging();
+  };
+
+  const goToNextPage = () => {
+    if (!data?.nextCursor) return;
+    setCursors([...cursors, cursor ?? ""]);
+    setCursor(data.nextCursor);
+    setSelectedIds(new Set());
+  };
+
+  const goToPreviousPage = () => {
+    const previous = cursors[cursors.length - 1];
+    setCursors(cursors.slice(0, -1));
+    setCursor(previous || undefined);
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelectedIds(next);
+  };
+
+  const allSelected = memories.length > 0 && memories.every((memory) => selectedIds.has(memory.id));
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, query, response }: { id: string; query: string; response: string }) => {
+      const res = await apiRequest("PATCH", `/api/memory/${encodeURIComponent(id)}`, { query, response });
+      return res.json() as Promise<Memory>;
+    },
+    onSuccess: () => {
+      setEditing(undefined);
+      invalidateMemory();
+      toast({
+        title: "✓ Memory Updated",
+        description: "The answer was re-embedded and saved.",
+        duration: 3000,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "⚠️ Update Failed",
+        description: error.message.replace(/^\d+: /, ""),
+        variant: "destructive",
+        duration: 4000,
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const res = await apiRequest("POST", "/api/memory/bulk-delete", { ids });
+      return res.json() as Promise<{ deleted: number }>;
+    },
+    onSuccess: ({ deleted }) => {
+      setSelectedIds(new Set());
+      invalidateMemory();
+      toast({
+        title: "✓ Memory Deleted",
+        description: `${deleted} ${deleted === 1 ? "memory was" : "memories were"} removed from the vector store.`,
+        duration: 3000,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "⚠️ Delete Failed",
+        description: "Failed to delete memories. Please try again.",
+        variant: "destructive",
+        duration: 4000,
+      });
+    },
+  });
+
+  const startEditing = (memory: Memory) => {
+    setEditing(memory);
+    setEditQuery(memory.query);
+    setEditResponse(memory.response);
+  };
+
+  const handleDelete = (ids: string[]) => {
+    if (ids.length === 0) return;
+    if (!confirm(`Delete ${ids.length} ${ids.length === 1 ? "memory" : "memories"}? This cannot be undone.`)) return;
+    deleteMutation.mutate(ids);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b border-border bg-card">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/">
+              <Button variant="ghost" size="sm" title="Back to chat" data-testid="link-back-to-chat">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div className="w-8 h-8 bg-primary rounded flex items-center justify-center">
+              <Database className="h-4 w-4 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold">Memory</h1>
+              <p className="text-xs text-muted-foreground">Browse and curate stored answers</p>
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 py-4 space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="memory-kind" className="text-xs">Type</Label>
+            <Select value={kind} onValueChange={withFirstPage((value: string) => setKind(value as KindFilter))}>
+              <SelectTrigger id="memory-kind" className="h-9" data-testid="select-memory-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="conversation">Conversations</SelectItem>
+                <SelectItem value="document">Documents</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="memory-source" className="text-xs">Source</Label>
+            <Input
+              id="memory-source"
+              className="h-9"
+              placeholder="Any source"
+              value={source}
+              onChange={(e) => withFirstPage(setSource)(e.target.value)}
+              data-testid="input-memory-source"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="memory-from" className="text-xs">From</Label>
+            <Input
+              id="memory-from"
+              type="date"
+              className="h-9"
+              value={fromDate}
+              onChange={(e) => withFirstPage(setFromDate)(e.target.value)}
+              data-testid="input-memory-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="memory-to" className="text-xs">To</Label>
+            <Input
+              id="memory-to"
+              type="date"
+              className="h-9"
+              value={toDate}
+              onChange={(e) => withFirstPage(setToDate)(e.target.value)}
+              data-testid="input-memory-to"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Checkbox
+              checked={allSelected}
+              onCheckedChange={(checked) =>
+                setSelectedIds(checked ? new Set(memories.map((memory) => memory.id)) : new Set())
+              }
+              disabled={memories.length === 0}
+              data-testid="checkbox-select-all-memories"
+            />
+            {selectedIds.size > 0 ? `${selectedIds.size} selected` : "Select page"}
+          </label>
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => handleDelete(Array.from(selectedIds))}
+            disabled={selectedIds.size === 0 || deleteMutation.isPending}
+            data-testid="button-bulk-delete-memories"
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete selected
+          </Button>
+        </div>
+
+        {isLoading && (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Card key={i} className="p-4 space-y-2">
+                <Skeleton className="h-4 w-1/3" />
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-3/4" />
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-destructive text-center py-8">
+            Error loading memories: {(error as Error).message.replace(/^\d+: /, "")}
+          </p>
+        )}
+
+        {!isLoading && !error && memories.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No memories on this page. Save answers from the chat or upload documents to build up memory.
+          </p>
+        )}
+
+        <div className="space-y-3">
+          {memories.map((memory) => (
+            <Card key={memory.id} className="p-4" data-testid={`memory-${memory.id}`}>
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  className="mt-1"
+                  checked={selectedIds.has(memory.id)}
+                  onCheckedChange={(checked) => toggleSelected(memory.id, checked === true)}
+                  data-testid={`checkbox-memory-${memory.id}`}
+                />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {memory.documentName ? (
+                      <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                    ) : (
+                      <MessageSquare className="h-4 w-4 text-muted-foreground shrink-0" />
+                    )}
+                    <span className="truncate">{memory.documentName || memory.query}</span>
+                    {memory.chunkCount !== undefined && memory.chunkCount > 1 && (
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        part {(memory.chunkIndex ?? 0) + 1}/{memory.chunkCount}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-4">{memory.response}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {memory.timestamp ? new Date(memory.timestamp).toLocaleString() : "Unknown date"}
+                    {memory.sources.length > 0 && ` · ${memory.sources.join(", ")}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => startEditing(memory)}
+                    title="Edit memory"
+                    data-testid={`button-edit-memory-${memory.id}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete([memory.id])}
+                    disabled={deleteMutation.isPending}
+                    title="Delete memory"
+                    data-testid={`button-delete-memory-${memory.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+
+        {(cursors.length > 0 || data?.nextCursor) && (
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={goToPreviousPage}
+              disabled={cursors.length === 0 || isLoading}
+              data-testid="button-memory-previous"
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <span className="text-xs text-muted-foreground">Page {cursors.length + 1}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={goToNextPage}
+              disabled={!data?.nextCursor || isLoading}
+              data-testid="button-memory-next"
+            >
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(undefined)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit Memory</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-memory-query" className="text-sm">Question</Label>
+              <Input
+                id="edit-memory-query"
+                value={editQuery}
+                onChange={(e) => setEditQuery(e.target.value)}
+                data-testid="input-edit-memory-query"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-memory-response" className="text-sm">Answer</Label>
+              <Textarea
+                id="edit-memory-response"
+                value={editResponse}
+                onChange={(e) => setEditResponse(e.target.value)}
+                className="min-h-[200px]"
+                data-testid="textarea-edit-memory-response"
+              />
+              <p className="text-xs text-muted-foreground">Saving re-embeds the answer so search reflects the edit.</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(undefined)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => editing && updateMutation.mutate({ id: editing.id, query: editQuery, response: editResponse })}
+              disabled={!editQuery.trim() || !editResponse.trim() || updateMutation.isPending}
+              data-testid="button-save-memory"
+            >
+              {updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, BarChart3 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useAuth } from "@/hooks/use-auth";
+import type { DailyUsage, UsageStats } from "@shared/schema";
+
+const RANGES = [7, 30, 90] as const;
+const MODEL_COLORS = [
+  "hsl(221 83% 53%)",
+  "hsl(142 71% 45%)",
+  "hsl(38 92% 50%)",
+  "hsl(280 65% 60%)",
+  "hsl(0 72% 51%)",
+  "hsl(190 80% 42%)",
+];
+
+type Metric = "cost" | "tokens";
+
+function formatCost(cost: number): string {
+  return cost >= 1 ? `$${cost.toFixed(2)}` : `$${cost.toFixed(4)}`;
+}
+
+function totalTokens(row: Pick<DailyUsage, "inputTokens" | "outputTokens" | "embeddingTokens">): number {
+  return row.inputTokens + row.outputTokens + row.embeddingTokens;
+}
+
+// Every day in the range, so days without usage show as gaps rather than disappearing
+function rangeDates(days: number): string[] {
+  const dates: string[] = [];
+  const day = new Date();
+  day.setDate(day.getDate() - (days - 1));
+  for (let i = 0; i < days; i++) {
+    dates.push(`${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, "0")}-${String(day.getDate()).padStart(2, "0")}`);
+    day.setDate(day.getDate() + 1);
+  }
+  return dates;
+}
+
+export default function UsagePage() {
+  const [days, setDays] = useState<number>(30);
+  const [metric, setMetric] = useState<Metric>("cost");
+  const { user } = useAuth();
+
+  const { data, isLoading, error } = useQuery<{ usage: UsageStats }>({
+    queryKey: [`/api/stats?days=${days}`],
+    // Every chat message adds usage, so don't show a cached page
+    refetchOnMount: "always",
+  });
+  const usage = data?.usage;
+
+  // Model names can contain dots, so chart series use index keys with the name as label
+  const { chartData, chartConfig, models } = useMemo(() => {
+    const daily = usage?.daily ?? [];
+    const models = Array.from(new Set(daily.map((row) => row.model)));
+    const chartConfig: ChartConfig = Object.fromEntries(
+      models.map((model, i) => [`model${i}`, { label: model, color: MODEL_COLORS[i % MODEL_COLORS.length] }])
+    );
+    const chartData = rangeDates(days).map((date) => {
+      const point: Record<string, string | number> = { date: date.slice(5) };
+      daily.filter((row) => row.date === date).forEach((row) => {
+        point[`model${models.indexOf(row.model)}`] = metric === "cost" ? row.cost : totalTokens(row);
+      });
+      return point;
+    });
+    return { chartData, chartConfig, models };
+  }, [usage, days, metric]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b border-border bg-card">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/">
+              <Button variant="ghost" size="sm" title="Back to chat" data-testid="link-back-to-chat">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div className="w-8 h-8 bg-primary rounded flex items-center justify-center">
+              <BarChart3 className="h-4 w-4 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold">Usage</h1>
+              <p className="text-xs text-muted-foreground">
+                Tokens and estimated cost by day and model{user?.role === "admin" ? " across all accounts" : " for your account"}
+              </p>
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 py-4 space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="usage-range" className="text-xs">Range</Label>
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger id="usage-range" className="h-9" data-testid="select-usage-range">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGES.map((range) => (
+                  <SelectItem key={range} value={String(range)}>Last {range} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="usage-metric" className="text-xs">Chart</Label>
+            <Select value={metric} onValueChange={(value) => setMetric(value as Metric)}>
+              <SelectTrigger id="usage-metric" className="h-9" data-testid="select-usage-metric">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cost">Estimated cost</SelectItem>
+                <SelectItem value="tokens">Tokens</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error && (
+          <p className="text-sm text-destructive text-center py-8">
+            Error loading usage: {(error as Error).message.replace(/^\d+: /, "")}
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {[
+            { label: "Estimated cost", value: usage ? formatCost(usage.totals.cost) : null, testId: "text-usage-cost" },
+            { label: "Input tokens", value: usage?.totals.inputTokens.toLocaleString(), testId: "text-usage-input" },
+            { label: "Output tokens", value: usage?.totals.outputTokens.toLocaleString(), testId: "text-usage-output" },
+            { label: "Embedding tokens", value: usage?.totals.embeddingTokens.toLocaleString(), testId: "text-usage-embedding" },
+          ].map(({ label, value, testId }) => (
+            <Card key={label} className="p-4 space-y-1">
+              <p className="text-xs text-muted-foreground">{label}</p>
+              {isLoading ? (
+                <Skeleton className="h-6 w-20" />
+              ) : (
+                <p className="text-xl font-semibold" data-testid={testId}>{value ?? "—"}</p>
+              )}
+            </Card>
+          ))}
+        </div>
+
+        <Card className="p-4">
+          {isLoading ? (
+            <Skeleton className="w-full aspect-video" />
+          ) : models.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-16">
+              No usage recorded in this range yet.
+            </p>
+          ) : (
+            <ChartContainer config={chartConfig} className="max-h-80 w-full" data-testid="chart-usage">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={56}
+                  tickFormatter={(value: number) => metric === "cost" ? formatCost(value) : value.toLocaleString()}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      formatter={(value, name) => (
+                        <div className="flex w-full justify-between gap-4">
+                          <span className="text-muted-foreground">{chartConfig[name as string]?.label}</span>
+                          <span className="font-mono">
+                            {metric === "cost" ? formatCost(Number(value)) : Number(value).toLocaleString()}
+                          </span>
+                        </div>
+                      )}
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {models.map((_, i) => (
+                  <Bar key={i} dataKey={`model${i}`} stackId="usage" fill={`var(--color-model${i})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          )}
+        </Card>
+
+        {usage && usage.daily.length > 0 && (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Day</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">Requests</TableHead>
+                  <TableHead className="text-right">Input</TableHead>
+                  <TableHead className="text-right">Output</TableHead>
+                  <TableHead className="text-right">Embedding</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...usage.daily].reverse().map((row) => (
+                  <TableRow key={`${row.date}-${row.model}`} data-testid={`usage-${row.date}-${row.model}`}>
+                    <TableCell>{row.date}</TableCell>
+                    <TableCell className="font-mono text-xs">{row.model}</TableCell>
+                    <TableCell className="text-right">{row.requests.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{row.inputTokens.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{row.outputTokens.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{row.embeddingTokens.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatCost(row.cost)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Costs are estimates from the price table in settings. Tokens are counted locally when a provider doesn't report them.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes } from "crypto";
+import { PgSessionStore } from "./services/session-store";
+import { authenticateApiKey, hasApiKeyScope } from "./services/api-keys";
+import {
+  createUser,
+  getUser,
+  getUserByUsername,
+  toPublicUser,
+  validateCredentials,
+  verifyPassword,
+} from "./services/users";
+import type { ApiKeyScope, PublicApiKey, PublicUser, UserRole } from "../shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+    interface Request {
+      // Set when the request was authenticated with an API key rather than a session
+      apiKey?: PublicApiKey;
+    }
+  }
+}
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("Session secret must be configured. Please set SESSION_SECRET environment variable.");
+  }
+  // Sessions won't survive a restart, which is fine in development
+  console.warn("⚠️ SESSION_SECRET not set - using a random secret for this process");
+  return randomBytes(32).toString("hex");
+}
+
+// Sessions, passport and the /api/register, /api/login, /api/logout and /api/user routes
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(session({
+    store: new PgSessionStore(),
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  // Scripts send "Authorization: Bearer <api key>" instead of a session cookie
+  app.use(["/api", "/v1"], async (req, res, next) => {
+    const header = req.headers.authorization;
+    if (!header?.startsWith("Bearer ")) return next();
+
+    try {
+      const authenticated = await authenticateApiKey(header.slice("Bearer ".length).trim());
+      if (!authenticated) {
+        // OpenAI SDKs read the error from an `error` object
+        return req.baseUrl === "/v1"
+          ? res.status(401).json({ error: { message: "Invalid or expired API key", type: "invalid_request_error", code: "invalid_api_key" } })
+          : res.status(401).json({ message: "Invalid or expired API key" });
+      }
+
+      req.user = authenticated.user;
+      req.apiKey = authenticated.apiKey;
+      next();
+    } catch (error) {
+      console.error("Error checking API key:", error);
+      res.status(500).json({ message: "Failed to check API key" });
+    }
+  });
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      return done(null, toPublicUser(user));
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await getUser(id);
+      // A deleted account simply ends the session
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { username, password } = req.body;
+
+      const credentialsError = validateCredentials(username, password);
+      if (credentialsError) {
+        return res.status(400).json({ message: credentialsError });
+      }
+      if (await getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      const user = toPublicUser(await createUser(username, password));
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(user);
+      });
+    } catch (error) {
+      console.error("Error registering user:", error);
+      res.status(500).json({ message: "Failed to register" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) {
+        console.error("Error logging in:", error);
+        return res.status(500).json({ message: "Failed to log in" });
+      }
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => res.sendStatus(200));
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+}
+
+// Guard for every API route registered after setupAuth
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ message: "Not signed in" });
+}
+
+// Guard for routes only some roles may use; runs after requireAuth
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.user && roles.includes(req.user.role)) return next();
+    res.status(403).json({ message: "You don't have permission to do this" });
+  };
+}
+
+// Guard for what an API key may reach; session requests are limited by role alone
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiKey || hasApiKeyScope(req.apiKey, scope)) return next();
+    res.status(403).json({ message: `This API key doesn't have the ${scope} scope` });
+  };
+}
+
+// Guard for routes that must come from a signed-in browser, such as managing API keys
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (!req.apiKey) return next();
+  res.status(403).json({ message: "This can't be done with an API key" });
+}
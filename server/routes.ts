@@ -1,215 +1,361 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
 import {
   generateChatResponse,
+  streamChatResponse,
   generateEmbedding,
   checkOpenAIConnection,
+  describeSources,
+  type ChatOptions,
+  type VectorMemoryContext,
 } from "./services/openai";
-import { pineconeService, type ChatMessage } from "./services/pinecone";
-import { getAllSettingsFromCache, setSetting } from "./services/database";
-import { randomUUID } from "crypto";
+import { vectorStore, matchesVectorFilter, formatEstimatedSize, MAX_SEARCH_LIMIT, type VectorFilter } from "./services/vector-store";
+import { getLLMConfig, LLM_PROVIDER_TYPES, meterUsage, type MeteredCall } from "./services/llm";
+import {
+  getAllSettingsFromCache,
+  setSetting,
+  getSettingsForUser,
+  getUserSettingOverrides,
+  setUserSetting,
+  clearUserSettings,
+  USER_SETTING_KEYS,
+  type UserSettingKey,
+} from "./services/database";
+import { setupAuth, requireAuth, requireRole, requireScope, requireSession } from "./auth";
+import { listUsers, getUser, setUserRole, countAdmins, ensureAdminExists, toPublicUser } from "./services/users";
+import { listApiKeys, createApiKey, revokeApiKey, validateApiKeyOptions, hasApiKeyScope } from "./services/api-keys";
+import {
+  ensurePromptHistory,
+  listPromptVersions,
+  getPromptVersion,
+  updateSystemPrompt,
+  restorePromptVersion,
+  diffPromptVersions,
+  validatePromptNote,
+} from "./services/prompt-versions";
+import {
+  listConversations,
+  getConversation,
+  createConversation,
+  updateConversation,
+  deleteConversation,
+  deleteAllConversations,
+  autoTitleConversation,
+  getOrCreateDefaultConversation,
+  getMessages,
+  getMessage,
+  addMessage,
+  updateMessage,
+  getPrecedingUserMessage,
+  getLastMessage,
+} from "./services/conversations";
+import {
+  listDocuments,
+  ingestDocument,
+  deleteDocument,
+  detectDocumentKind,
+  MAX_DOCUMENT_SIZE,
+} from "./services/documents";
+import {
+  saveAnswerToMemory,
+  removeAnswerFromMemory,
+  getMemoryStatuses,
+  listMemories,
+  getMemory,
+  countMemories,
+  updateMemory,
+  deleteMemories,
+  saveAnswerWithDedup,
+  getDuplicateThreshold,
+  getMemoryScope,
+  validateDuplicateThreshold,
+  MAX_MEMORY_LENGTH,
+} from "./services/memory";
+import { classifyMemory, getMemoryClassifierConfig, MEMORY_CLASSIFIERS } from "./services/memory-classifier";
+import { getChunkOptions, validateChunkOptions } from "./services/chunking";
+import { getRetrievalConfig, validateRetrievalConfig, retrieveMemoryContext } from "./services/retrieval";
+import { rewriteQuery } from "./services/query-rewrite";
+import { getHistoryConfig, validateHistoryConfig, selectHistoryWindow, type HistoryMessage } from "./services/history";
+import { allocateTokenBudget } from "./services/token-budget";
+import {
+  recordUsage,
+  withUsageTracking,
+  getUsageStats,
+  getModelPrices,
+  validateModelPrices,
+  DEFAULT_USAGE_DAYS,
+  MAX_USAGE_DAYS,
+} from "./services/usage";
+import {
+  DUPLICATE_RESOLUTIONS,
+  USER_ROLES,
+  type ChatMessage,
+  type Conversation,
+  type MemoryDecision,
+  type UsageSummary,
+} from "../shared/schema";
+import multer from "multer";
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_DOCUMENT_SIZE, files: 1 },
+});
+
+// Viewers can chat and browse but not change stored knowledge or delete anything
+const requireEditor = requireRole("admin", "member");
 
-// In-memory chat storage for the session
-let chatMessages: ChatMessage[] = [];
+// Personal overrides are open to editors; the shared settings only to admins
+const requireSettingsRole: RequestHandler = (req, res, next) =>
+  req.body?.personal === true ? requireEditor(req, res, next) : requireRole("admin")(req, res, next);
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize services
   try {
-    await pineconeService.connect();
+    await vectorStore.connect();
   } catch (error) {
     console.error("Service initialization error:", error);
   }
 
-  // Get chat messages
-  app.get("/api/messages", async (req, res) => {
+  try {
+    await ensureAdminExists();
+  } catch (error) {
+    console.error("User initialization error:", error);
+  }
+
+  try {
+    await ensurePromptHistory();
+  } catch (error) {
+    console.error("Prompt history initialization error:", error);
+  }
+
+  // Everything under /api except the account routes requires a signed-in user
+  setupAuth(app);
+  app.use("/api", requireAuth);
+
+  // List conversations (pass ?archived=true for the archive)
+  app.get("/api/conversations", requireScope("chat"), async (req, res) => {
     try {
-      res.json(chatMessages);
+      const archived = req.query.archived === "true";
+      res.json(await listConversations(req.user!.id, { archived }));
     } catch (error) {
-      console.error("Error fetching messages:", error);
-      res.status(500).json({ message: "Failed to fetch messages" });
+      console.error("Error fetching conversations:", error);
+      res.status(500).json({ message: "Failed to fetch conversations" });
     }
   });
 
-  // Send chat message and get AI response  
-  app.post("/api/messages", async (req, res) => {
-    const requestStartTime = Date.now();
-    
+  // Create a new conversation
+  app.post("/api/conversations", requireScope("chat"), async (req, res) => {
     try {
-      const { content } = req.body;
+      const { title } = req.body;
 
-      if (!content || typeof content !== "string") {
-        return res.status(400).json({ message: "Content is required" });
+      if (title !== undefined && typeof title !== "string") {
+        return res.status(400).json({ message: "Title must be a string" });
       }
 
-      // Save user message
-      const userMessage: ChatMessage = {
-        id: randomUUID(),
-        content,
-        role: "user",
-        timestamp: new Date(),
-        sources: [],
-      };
-      chatMessages.push(userMessage);
+      res.status(201).json(await createConversation(req.user!.id, title));
+    } catch (error) {
+      console.error("Error creating conversation:", error);
+      res.status(500).json({ message: "Failed to create conversation" });
+    }
+  });
 
-      // Get cached settings (fast - no database call)
-      const settings = getAllSettingsFromCache();
-      
-      // Enhanced vector database semantic search for context
-      let vectorMemoryContext: Array<{
-        query: string;
-        response: string;
-        similarity: number;
-        timestamp: string;
-      }> = [];
-      if (pineconeService.getConnectionStatus()) {
-        try {
-          console.log('🔍 Performing vector search for:', content.substring(0, 50) + '...');
-          
-          // Adaptive threshold based on query length and complexity
-          const isShortQuery = content.trim().split(' ').length <= 3;
-          const threshold = isShortQuery ? 0.15 : 0.25; // Lower threshold for short queries
-          
-          console.log(`📏 Query length: ${content.trim().split(' ').length} words, using threshold: ${threshold}`);
-          
-          const queryEmbedding = await generateEmbedding(content);
-          console.log('📊 Generated embedding with', queryEmbedding.length, 'dimensions');
-          
-          // Use adaptive threshold
-          const similarResults = await pineconeService.searchSimilar(queryEmbedding, threshold, 5);
-          console.log('🎯 Vector search found', similarResults.length, 'similar conversations');
-          
-          if (similarResults.length > 0) {
-            // Show similarity scores for debugging
-            console.log('📊 Similarity scores:', similarResults.map(r => `${r.similarity.toFixed(3)}`).join(', '));
-            
-            vectorMemoryContext = similarResults.map(result => ({
-              query: result.query,
-              response: result.response,
-              similarity: result.similarity,
-              timestamp: result.timestamp
-            }));
-            console.log('✅ Using', vectorMemoryContext.length, 'previous conversations as context');
-            console.log('📝 Context queries:', vectorMemoryContext.map(p => p.query.substring(0, 30) + '...'));
-          } else {
-            console.log('❌ No similar conversations found - proceeding without context');
-          }
-        } catch (error) {
-          console.error("❌ Vector search failed:", error);
+  // Rename or archive/unarchive a conversation
+  app.patch("/api/conversations/:id", requireScope("chat"), async (req, res) => {
+    try {
+      const { title, archived } = req.body;
+      const changes: Partial<Pick<Conversation, "title" | "archived">> = {};
+
+      if (title !== undefined) {
+        if (typeof title !== "string" || !title.trim()) {
+          return res.status(400).json({ message: "Title must be a non-empty string" });
         }
-      } else {
-        console.log('⚠️  Pinecone vector database not connected - no semantic search');
+        changes.title = title.trim().substring(0, 255);
       }
-      
-      // ALWAYS use database settings only - never use request parameters
-      const currentModel = settings.model;
-      const currentTemperature = parseFloat(settings.temperature);
-      const currentMaxTokens = parseInt(settings.maxTokens);
-      
-      // Validate required settings exist
-      if (!currentModel) {
-        return res.status(400).json({ message: "Model not configured. Please set model in settings." });
+      if (archived !== undefined) {
+        if (typeof archived !== "boolean") {
+          return res.status(400).json({ message: "Archived must be a boolean" });
+        }
+        changes.archived = archived;
       }
-      if (isNaN(currentTemperature)) {
-        return res.status(400).json({ message: "Temperature not configured. Please set temperature in settings." });
+
+      const existing = await getConversation(req.params.id, req.user!.id);
+      const conversation = existing && await updateConversation(existing.id, changes);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
-      if (!currentMaxTokens) {
-        return res.status(400).json({ message: "Max tokens not configured. Please set maxTokens in settings." });
+
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error updating conversation:", error);
+      res.status(500).json({ message: "Failed to update conversation" });
+    }
+  });
+
+  // Delete a conversation and all of its messages
+  app.delete("/api/conversations/:id", requireScope("chat"), requireEditor, async (req, res) => {
+    try {
+      const existing = await getConversation(req.params.id, req.user!.id);
+      const deleted = existing && await deleteConversation(existing.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
-      if (!settings.systemPrompt) {
-        return res.status(400).json({ message: "System prompt not configured. Please set system prompt in settings." });
+
+      res.json({ message: "Conversation deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      res.status(500).json({ message: "Failed to delete conversation" });
+    }
+  });
+
+  // Get chat messages of a conversation
+  app.get("/api/conversations/:id/messages", requireScope("chat"), async (req, res) => {
+    try {
+      const conversation = await getConversation(req.params.id, req.user!.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
 
-      // Generate AI response with vector memory context for optimal memory integration
-      const aiResponse = await generateChatResponse(content, vectorMemoryContext, {
-        temperature: currentTemperature,
-        model: currentModel,
-        maxTokens: currentMaxTokens,
-      }, settings);
+      res.json(await getMessages(conversation.id));
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
 
-      // Save AI response (vector saving is handled manually via UI toggles)
-      const assistantMessage: ChatMessage = {
-        id: randomUUID(),
-        content: aiResponse.content,
-        role: "assistant",
-        timestamp: new Date(),
-        sources: aiResponse.sources,
-        savedToVector: false, // Only set to true via manual PATCH endpoint
-      };
-      chatMessages.push(assistantMessage);
+  // Whether each saved answer in a conversation is actually present in the vector store
+  app.get("/api/conversations/:id/memory-status", requireScope("memory:read"), async (req, res) => {
+    try {
+      const conversation = await getConversation(req.params.id, req.user!.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
 
-      const totalDuration = Date.now() - requestStartTime;
-      console.log(`Message processed in ${totalDuration}ms`);
+      const history = await getMessages(conversation.id);
+      res.json(await getMemoryStatuses(history.filter((message) => message.role === "assistant")));
+    } catch (error) {
+      console.error("Error checking memory status:", error);
+      res.status(500).json({ message: "Failed to check memory status" });
+    }
+  });
 
-      res.json({
-        userMessage,
-        assistantMessage,
-        sources: aiResponse.sources,
-      });
+  // Send chat message to a conversation and get AI response
+  app.post("/api/conversations/:id/messages", requireScope("chat"), async (req, res) => {
+    let conversation: Conversation | null;
+    try {
+      conversation = await getConversation(req.params.id, req.user!.id);
+    } catch (error) {
+      console.error("Error fetching conversation:", error);
+      return res.status(500).json({ message: "Failed to process message" });
+    }
+
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+
+    await sendMessage(req, res, conversation);
+  });
+
+  // Stream chat response for a conversation over Server-Sent Events
+  app.post("/api/conversations/:id/messages/stream", requireScope("chat"), async (req, res) => {
+    let conversation: Conversation | null;
+    try {
+      conversation = await getConversation(req.params.id, req.user!.id);
+    } catch (error) {
+      console.error("Error fetching conversation:", error);
+      return res.status(500).json({ message: "Failed to process message" });
+    }
+
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+
+    await streamMessage(req, res, conversation);
+  });
+
+  // Legacy unscoped routes - operate on the most recently active conversation
+  app.get("/api/messages", requireScope("chat"), async (req, res) => {
+    try {
+      const conversation = await getOrCreateDefaultConversation(req.user!.id);
+      res.json(await getMessages(conversation.id));
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.post("/api/messages", requireScope("chat"), async (req, res) => {
+    let conversation: Conversation;
+    try {
+      conversation = await getOrCreateDefaultConversation(req.user!.id);
+    } catch (error) {
+      console.error("Error fetching conversation:", error);
+      return res.status(500).json({ message: "Failed to process message" });
+    }
+
+    await sendMessage(req, res, conversation);
+  });
+
+  app.post("/api/messages/stream", requireScope("chat"), async (req, res) => {
+    let conversation: Conversation;
+    try {
+      conversation = await getOrCreateDefaultConversation(req.user!.id);
     } catch (error) {
-      console.error("Error processing message:", error);
-      res.status(500).json({ message: "Failed to process message" });
+      console.error("Error fetching conversation:", error);
+      return res.status(500).json({ message: "Failed to process message" });
     }
+
+    await streamMessage(req, res, conversation);
   });
 
-  // Update message to save/unsave to vector DB
-  app.patch("/api/messages/:id/vector-save", async (req, res) => {
+  // Update message to save/unsave to vector DB. Saving checks for near-duplicate
+  // memories first; pass duplicateResolution (merge, replace or keep_both) to save anyway.
+  app.patch("/api/messages/:id/vector-save", requireScope("memory:write"), requireEditor, async (req, res) => {
     try {
       const { id } = req.params;
-      const { saveToVector } = req.body;
+      const { saveToVector, duplicateResolution } = req.body;
 
-      const message = chatMessages.find((m) => m.id === id);
-      if (!message) {
+      if (duplicateResolution !== undefined && !DUPLICATE_RESOLUTIONS.includes(duplicateResolution)) {
+        return res.status(400).json({ message: `Duplicate resolution must be one of: ${DUPLICATE_RESOLUTIONS.join(', ')}` });
+      }
+
+      // Messages in other users' conversations are reported as missing
+      const message = await getMessage(id);
+      if (!message || !(await getConversation(message.conversationId, req.user!.id))) {
         return res.status(404).json({ message: "Message not found" });
       }
 
       // Update the saved status
       if (message.role === "assistant") {
-        message.savedToVector = saveToVector;
-
-        if (saveToVector) {
-          // Find the corresponding user message for the query
-          const messageIndex = chatMessages.findIndex((m) => m.id === id);
-          const userMessage =
-            messageIndex > 0 ? chatMessages[messageIndex - 1] : null;
-
-          if (userMessage && userMessage.role === "user") {
-            const embedding = await generateEmbedding(message.content);
-
-            await pineconeService.insertVector({
-              id: randomUUID(),
-              query: userMessage.content,
-              response: message.content,
-              embedding,
-              sources: message.sources || [],
-              timestamp: new Date().toISOString(),
-            });
-          }
-        } else {
-          // Remove from vector database when unchecked
-          const messageIndex = chatMessages.findIndex((m) => m.id === id);
-          const userMessage =
-            messageIndex > 0 ? chatMessages[messageIndex - 1] : null;
-
-          if (userMessage && userMessage.role === "user") {
-            // Search for similar vectors to find and delete the specific one
-            try {
-              const embedding = await generateEmbedding(message.content);
-              const similarResults = await pineconeService.searchSimilar(embedding, 0.95, 5);
-              
-              // Find the exact match by comparing the response content
-              const exactMatch = similarResults.find(result => 
-                result.response.trim() === message.content.trim() && 
-                result.query.trim() === userMessage.content.trim()
-              );
-              
-              if (exactMatch) {
-                await pineconeService.deleteVector(exactMatch.id);
-              }
-            } catch (error) {
-              console.error("Error deleting from vector database:", error);
-            }
-          }
+        const userId = req.user!.id;
+        const settings = await getSettingsForUser(userId);
+        const userMessage = await getPrecedingUserMessage(message);
+
+        const scope = getMemoryScope(userId, settings);
+        const wasSaved = message.savedToVector || message.vectorIds.length > 0;
+
+        if (!saveToVector || !userMessage) {
+          if (wasSaved) await removeAnswerFromMemory(message, userMessage, scope);
+          const updated = await updateMessage(id, { savedToVector: false, vectorIds: [] });
+          return res.json(updated);
         }
+
+        // Use the corresponding user message as the query
+        const { vectorIds, duplicateCheck } = await withUsageTracking("memory", userId,
+          () => saveAnswerWithDedup(message, userMessage, userId, duplicateResolution, getDuplicateThreshold(settings)),
+          message.id
+        );
+        if (!vectorIds) {
+          // Nothing was saved - the client asks how to resolve the duplicates, and
+          // an earlier save of this answer stays until that succeeds
+          return res.json({ ...message, duplicateCheck });
+        }
+
+        // Clear what was stored before, so saving twice doesn't duplicate the answer
+        if (wasSaved) await removeAnswerFromMemory(message, userMessage, scope, vectorIds);
+
+        const updated = await updateMessage(id, { savedToVector: true, vectorIds });
+        return res.json({ ...updated, duplicateCheck });
       }
 
       res.json(message);
@@ -219,18 +365,241 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Browse saved memory by similarity, with optional metadata filters and offset pagination
+  app.post("/api/search-similar", requireScope("memory:read"), async (req, res) => {
+    try {
+      const { query, threshold, limit = 10, offset = 0, filters } = req.body;
+
+      if (!query || typeof query !== "string" || !query.trim()) {
+        return res.status(400).json({ message: "Query is required" });
+      }
+      if (threshold !== undefined && (typeof threshold !== "number" || threshold < 0 || threshold > 1)) {
+        return res.status(400).json({ message: "Threshold must be a number between 0 and 1" });
+      }
+      if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+        return res.status(400).json({ message: "Limit must be a whole number between 1 and 50" });
+      }
+      if (!Number.isInteger(offset) || offset < 0 || offset + limit > MAX_SEARCH_LIMIT) {
+        return res.status(400).json({ message: `Offset must be a whole number and offset + limit at most ${MAX_SEARCH_LIMIT}` });
+      }
+
+      const parsedFilter = parseVectorFilter(filters);
+      if ("error" in parsedFilter) {
+        return res.status(400).json({ message: parsedFilter.error });
+      }
+
+      if (!vectorStore.getConnectionStatus()) {
+        return res.status(503).json({ message: `${vectorStore.displayName} vector database is not connected` });
+      }
+
+      const settings = await getSettingsForUser(req.user!.id);
+      const embedding = await withUsageTracking("search", req.user!.id, () => generateEmbedding(query.trim()));
+      // Fetch one extra result to know whether there is a next page
+      const results = await vectorStore.searchSimilar(
+        embedding,
+        threshold ?? getRetrievalConfig(settings).similarityThreshold,
+        Math.min(offset + limit + 1, MAX_SEARCH_LIMIT),
+        { ...parsedFilter.filter, ...getMemoryScope(req.user!.id, settings) }
+      );
+
+      res.json({
+        results: results.slice(offset, offset + limit),
+        offset,
+        limit,
+        hasMore: results.length > offset + limit,
+      });
+    } catch (error) {
+      console.error("Error searching similar responses:", error);
+      res.status(500).json({ message: "Failed to search similar responses" });
+    }
+  });
+
+  // Page through stored memories, optionally filtered by type, source or date
+  app.get("/api/memory", requireScope("memory:read"), async (req, res) => {
+    try {
+      const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+        return res.status(400).json({ message: `Limit must be a whole number between 1 and ${MAX_SEARCH_LIMIT}` });
+      }
+
+      const { kind, source, from, to } = req.query;
+      const parsedFilter = parseVectorFilter({ kind, source, from, to });
+      if ("error" in parsedFilter) {
+        return res.status(400).json({ message: parsedFilter.error });
+      }
+
+      if (!vectorStore.getConnectionStatus()) {
+        return res.status(503).json({ message: `${vectorStore.displayName} vector database is not connected` });
+      }
+
+      const page = await listMemories({
+        limit,
+        cursor: typeof req.query.cursor === "string" ? req.query.cursor : undefined,
+        filter: { ...parsedFilter.filter, ...getMemoryScope(req.user!.id) },
+      });
+      res.json({ memories: page.vectors, nextCursor: page.nextCursor });
+    } catch (error) {
+      console.error("Error listing memories:", error);
+      res.status(500).json({ message: "Failed to list memories" });
+    }
+  });
+
+  app.get("/api/memory/:id", requireScope("memory:read"), async (req, res) => {
+    try {
+      const memory = await getMemory(req.params.id);
+      if (!memory || !matchesVectorFilter(memory, getMemoryScope(req.user!.id))) {
+        return res.status(404).json({ message: "Memory not found" });
+      }
+
+      res.json(memory);
+    } catch (error) {
+      console.error("Error fetching memory:", error);
+      res.status(500).json({ message: "Failed to fetch memory" });
+    }
+  });
+
+  // Edit a memory's question or answer; the answer is re-embedded
+  app.patch("/api/memory/:id", requireScope("memory:write"), requireEditor, async (req, res) => {
+    try {
+      const { query, response } = req.body;
+
+      if (query !== undefined && (typeof query !== "string" || !query.trim())) {
+        return res.status(400).json({ message: "Query must be a non-empty string" });
+      }
+      if (response !== undefined && (typeof response !== "string" || !response.trim())) {
+        return res.status(400).json({ message: "Response must be a non-empty string" });
+      }
+      if (query === undefined && response === undefined) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+      if ((query?.length ?? 0) > MAX_MEMORY_LENGTH || (response?.length ?? 0) > MAX_MEMORY_LENGTH) {
+        return res.status(400).json({ message: `Memory text must be at most ${MAX_MEMORY_LENGTH} characters` });
+      }
+
+      const existing = await getMemory(req.params.id);
+      if (!existing || !matchesVectorFilter(existing, getMemoryScope(req.user!.id))) {
+        return res.status(404).json({ message: "Memory not found" });
+      }
+
+      const updated = await withUsageTracking("memory", req.user!.id, () => updateMemory(existing.id, {
+        ...(query !== undefined ? { query: query.trim() } : {}),
+        ...(response !== undefined ? { response: response.trim() } : {}),
+      }));
+      if (!updated) {
+        return res.status(404).json({ message: "Memory not found" });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating memory:", error);
+      res.status(500).json({ message: "Failed to update memory" });
+    }
+  });
+
+  app.delete("/api/memory/:id", requireScope("memory:write"), requireEditor, async (req, res) => {
+    try {
+      const deleted = await deleteMemories([req.params.id], getMemoryScope(req.user!.id));
+      if (deleted === 0) {
+        return res.status(404).json({ message: "Memory not found" });
+      }
+
+      res.json({ message: "Memory deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting memory:", error);
+      res.status(500).json({ message: "Failed to delete memory" });
+    }
+  });
+
+  app.post("/api/memory/bulk-delete", requireScope("memory:write"), requireEditor, async (req, res) => {
+    try {
+      const { ids } = req.body;
+      if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_SEARCH_LIMIT || !ids.every((id) => typeof id === "string")) {
+        return res.status(400).json({ message: `ids must be a list of 1 to ${MAX_SEARCH_LIMIT} memory IDs` });
+      }
+
+      const deleted = await deleteMemories(ids, getMemoryScope(req.user!.id));
+      res.json({ deleted });
+    } catch (error) {
+      console.error("Error deleting memories:", error);
+      res.status(500).json({ message: "Failed to delete memories" });
+    }
+  });
+
+  // List ingested documents
+  app.get("/api/documents", requireScope("memory:read"), async (req, res) => {
+    try {
+      res.json(await listDocuments(req.user!.id));
+    } catch (error) {
+      console.error("Error fetching documents:", error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  // Upload a text, Markdown, HTML or PDF file and index it as RAG knowledge
+  app.post("/api/documents", requireScope("memory:write"), requireEditor, (req, res, next) => {
+    upload.single("file")(req, res, (err) => {
+      if (err instanceof multer.MulterError) {
+        const message = err.code === "LIMIT_FILE_SIZE"
+          ? `File is too large (maximum ${MAX_DOCUMENT_SIZE / (1024 * 1024)}MB)`
+          : err.message;
+        return res.status(400).json({ message });
+      }
+      if (err) return next(err);
+      next();
+    });
+  }, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "A file is required" });
+      }
+
+      const kind = detectDocumentKind(req.file);
+      if (!kind) {
+        return res.status(400).json({ message: "Unsupported file type. Upload plain text, Markdown, HTML or PDF." });
+      }
+
+      if (!vectorStore.getConnectionStatus()) {
+        return res.status(503).json({ message: `${vectorStore.displayName} vector database is not connected` });
+      }
+
+      const file = req.file;
+      const userId = req.user!.id;
+      const document = await withUsageTracking("document", userId, () => ingestDocument(file, kind, userId));
+      res.status(201).json(document);
+    } catch (error) {
+      console.error("Error ingesting document:", error);
+      res.status(500).json({ message: "Failed to ingest document: " + (error as Error).message });
+    }
+  });
+
+  // Delete a document and its indexed chunks
+  app.delete("/api/documents/:id", requireScope("memory:write"), requireEditor, async (req, res) => {
+    try {
+      const deleted = await deleteDocument(req.params.id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      res.json({ message: "Document deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting document:", error);
+      res.status(500).json({ message: "Failed to delete document" });
+    }
+  });
 
   // Get connection status
-  app.get("/api/status", async (req, res) => {
+  app.get("/api/status", requireScope("chat"), async (req, res) => {
     try {
       const [openaiStatus] = await Promise.allSettled([
         checkOpenAIConnection(),
       ]);
 
       const status = {
-        pinecone: pineconeService.getConnectionStatus(),
+        vectorStore: vectorStore.getConnectionStatus(),
+        vectorStoreType: vectorStore.displayName,
         openai:
           openaiStatus.status === "fulfilled" ? openaiStatus.value : false,
+        llmProvider: getLLMConfig().provider,
       };
 
       res.json(status);
@@ -240,17 +609,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get database statistics
-  app.get("/api/stats", async (req, res) => {
+  // Memory statistics plus token usage per day and model for the last `days` days
+  app.get("/api/stats", requireScope("memory:read"), async (req, res) => {
     try {
-      const stats = await pineconeService.getCollectionStats();
-      const lastMessage = chatMessages[chatMessages.length - 1];
+      const days = req.query.days !== undefined ? Number(req.query.days) : DEFAULT_USAGE_DAYS;
+      if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+        return res.status(400).json({ message: `Days must be a whole number between 1 and ${MAX_USAGE_DAYS}` });
+      }
+
+      // Admins see the whole collection and everyone's usage; others only their own
+      const userId = req.user!.id;
+      const isAdmin = req.user!.role === "admin";
+      let stats = await vectorStore.getCollectionStats();
+      if (!isAdmin && vectorStore.getConnectionStatus()) {
+        const count = await countMemories(getMemoryScope(userId));
+        stats = { totalResponses: count, collectionSize: formatEstimatedSize(count) };
+      }
+      const lastMessage = await getLastMessage(userId);
 
       res.json({
         ...stats,
         lastUpdated: lastMessage?.timestamp
           ? getTimeAgo(lastMessage.timestamp)
           : "Never",
+        usage: await getUsageStats(days, isAdmin ? undefined : userId),
       });
     } catch (error) {
       console.error("Error fetching stats:", error);
@@ -259,9 +641,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Clear chat history
-  app.delete("/api/clear-database", async (req, res) => {
+  app.delete("/api/clear-database", requireScope("admin"), requireEditor, async (req, res) => {
     try {
-      chatMessages = []; // Clear in-memory chat messages only
+      // Clear the user's conversations and their messages - vector memories are kept
+      await deleteAllConversations(req.user!.id);
 
       res.json({ message: "Chat history cleared successfully" });
     } catch (error) {
@@ -270,24 +653,188 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-
-  // Update all settings (model configuration + system prompt)
-  app.put("/api/settings", async (req, res) => {
+  // Update all settings (model configuration + system prompt). With personal: true the
+  // values are saved as the user's own overrides instead of changing the global settings.
+  // A change to the global system prompt is recorded as a prompt version, with promptNote.
+  app.put("/api/settings", requireScope("admin"), requireSettingsRole, async (req, res) => {
     try {
+      const userId = req.user!.id;
       const { 
+        personal,
         systemPrompt, 
+        promptNote,
         model,
         temperature,
-        maxTokens 
+        maxTokens,
+        llmProvider,
+        llmBaseUrl,
+        embeddingModel,
+        chunkStrategy,
+        chunkSize,
+        chunkOverlap,
+        thresholdStrategy,
+        similarityThreshold,
+        topK,
+        maxContextPairs,
+        contextTokenBudget,
+        keywordWeight,
+        reranker,
+        rerankCandidates,
+        queryRewrite,
+        queryRewriteTurns,
+        historyMessages,
+        historyTokenBudget,
+        contextWindow,
+        memoryClassifier,
+        autoSave,
+        duplicateThreshold,
+        modelPrices
       } = req.body;
+
+      if (personal !== undefined && typeof personal !== "boolean") {
+        return res.status(400).json({ message: "Personal must be true or false" });
+      }
+      if (personal) {
+        const globalOnly = Object.keys(req.body).filter((key) =>
+          key !== "personal" && key !== "promptNote" && req.body[key] !== undefined &&
+          !USER_SETTING_KEYS.includes(key as UserSettingKey)
+        );
+        if (globalOnly.length > 0) {
+          return res.status(400).json({ message: `These settings can't be overridden per user: ${globalOnly.join(', ')}` });
+        }
+      }
+      // Personal values are validated against what the user currently sees
+      const baseline = personal ? await getSettingsForUser(userId) : getAllSettingsFromCache();
+      const save = (key: string, value: string) => personal
+        ? setUserSetting(userId, key as UserSettingKey, value)
+        : setSetting(key, value);
+
+      // Validate provider settings before saving anything
+      if (llmProvider !== undefined && !LLM_PROVIDER_TYPES.includes(llmProvider)) {
+        return res.status(400).json({ message: `LLM provider must be one of: ${LLM_PROVIDER_TYPES.join(', ')}` });
+      }
+      if (llmBaseUrl !== undefined && llmBaseUrl !== "") {
+        try {
+          new URL(llmBaseUrl);
+        } catch {
+          return res.status(400).json({ message: "LLM base URL must be a valid URL" });
+        }
+      }
+      const effectiveProvider = llmProvider ?? getLLMConfig(baseline).provider;
+      const effectiveBaseUrl = llmBaseUrl ?? getLLMConfig(baseline).baseUrl;
+      if (effectiveProvider === 'openai-compatible' && !effectiveBaseUrl) {
+        return res.status(400).json({ message: "A base URL is required for the OpenAI-compatible provider" });
+      }
+
+      const currentChunkOptions = getChunkOptions(baseline);
+      const chunkOptions = {
+        strategy: chunkStrategy ?? currentChunkOptions.strategy,
+        chunkSize: chunkSize ?? currentChunkOptions.chunkSize,
+        chunkOverlap: chunkOverlap ?? currentChunkOptions.chunkOverlap,
+      };
+      const chunkError = validateChunkOptions(chunkOptions);
+      if (chunkError) {
+        return res.status(400).json({ message: chunkError });
+      }
+
+      const currentRetrievalConfig = getRetrievalConfig(baseline);
+      const retrievalConfig = {
+        thresholdStrategy: thresholdStrategy ?? currentRetrievalConfig.thresholdStrategy,
+        similarityThreshold: similarityThreshold ?? currentRetrievalConfig.similarityThreshold,
+        topK: topK ?? currentRetrievalConfig.topK,
+        maxContextPairs: maxContextPairs ?? currentRetrievalConfig.maxContextPairs,
+        contextTokenBudget: contextTokenBudget ?? currentRetrievalConfig.contextTokenBudget,
+        keywordWeight: keywordWeight ?? currentRetrievalConfig.keywordWeight,
+        reranker: reranker ?? currentRetrievalConfig.reranker,
+        rerankCandidates: rerankCandidates ?? currentRetrievalConfig.rerankCandidates,
+        queryRewrite: queryRewrite ?? currentRetrievalConfig.queryRewrite,
+        queryRewriteTurns: queryRewriteTurns ?? currentRetrievalConfig.queryRewriteTurns,
+      };
+      const retrievalError = validateRetrievalConfig(retrievalConfig);
+      if (retrievalError) {
+        return res.status(400).json({ message: retrievalError });
+      }
+      
+      const currentHistoryConfig = getHistoryConfig(baseline);
+      const historyConfig = {
+        historyMessages: historyMessages ?? currentHistoryConfig.historyMessages,
+        historyTokenBudget: historyTokenBudget ?? currentHistoryConfig.historyTokenBudget,
+      };
+      const historyError = validateHistoryConfig(historyConfig);
+      if (historyError) {
+        return res.status(400).json({ message: historyError });
+      }
+
+      if (contextWindow !== undefined && (!Number.isInteger(contextWindow) || contextWindow < 0)) {
+        return res.status(400).json({ message: "Context window must be a whole number of tokens, or 0 to use the model's default" });
+      }
+
+      if (memoryClassifier !== undefined && !MEMORY_CLASSIFIERS.includes(memoryClassifier)) {
+        return res.status(400).json({ message: `Memory classifier must be one of: ${MEMORY_CLASSIFIERS.join(', ')}` });
+      }
+      if (autoSave !== undefined && typeof autoSave !== "boolean") {
+        return res.status(400).json({ message: "Auto-save must be true or false" });
+      }
+      const duplicateThresholdError = duplicateThreshold !== undefined ? validateDuplicateThreshold(duplicateThreshold) : null;
+      if (duplicateThresholdError) {
+        return res.status(400).json({ message: duplicateThresholdError });
+      }
+
+      const modelPricesError = modelPrices !== undefined ? validateModelPrices(modelPrices) : null;
+      if (modelPricesError) {
+        return res.status(400).json({ message: modelPricesError });
+      }
+
+      const promptNoteError = validatePromptNote(promptNote);
+      if (promptNoteError) {
+        return res.status(400).json({ message: promptNoteError });
+      }
       
-      // Update system prompt
-      if (systemPrompt) await setSetting('systemPrompt', systemPrompt);
+      // Update system prompt (personal prompts aren't versioned)
+      if (systemPrompt) {
+        if (personal) await save('systemPrompt', systemPrompt);
+        else await updateSystemPrompt(systemPrompt, userId, promptNote);
+      }
       
       // Update model settings
-      if (model) await setSetting('model', model);
-      if (temperature !== undefined) await setSetting('temperature', temperature.toString());
-      if (maxTokens !== undefined) await setSetting('maxTokens', maxTokens.toString());
+      if (model) await save('model', model);
+      if (temperature !== undefined) await save('temperature', temperature.toString());
+      if (maxTokens !== undefined) await save('maxTokens', maxTokens.toString());
+      if (contextWindow !== undefined) await save('contextWindow', contextWindow.toString());
+
+      // Update provider settings
+      if (llmProvider) await save('llmProvider', llmProvider);
+      if (llmBaseUrl !== undefined) await save('llmBaseUrl', llmBaseUrl);
+      if (embeddingModel) await save('embeddingModel', embeddingModel);
+
+      // Update chunking settings (applies to content saved from now on)
+      if (chunkStrategy) await save('chunkStrategy', chunkOptions.strategy);
+      if (chunkSize !== undefined) await save('chunkSize', chunkOptions.chunkSize.toString());
+      if (chunkOverlap !== undefined) await save('chunkOverlap', chunkOptions.chunkOverlap.toString());
+
+      // Update retrieval settings
+      if (thresholdStrategy) await save('thresholdStrategy', retrievalConfig.thresholdStrategy);
+      if (similarityThreshold !== undefined) await save('similarityThreshold', retrievalConfig.similarityThreshold.toString());
+      if (topK !== undefined) await save('topK', retrievalConfig.topK.toString());
+      if (maxContextPairs !== undefined) await save('maxContextPairs', retrievalConfig.maxContextPairs.toString());
+      if (contextTokenBudget !== undefined) await save('contextTokenBudget', retrievalConfig.contextTokenBudget.toString());
+      if (keywordWeight !== undefined) await save('keywordWeight', retrievalConfig.keywordWeight.toString());
+      if (reranker) await save('reranker', retrievalConfig.reranker);
+      if (rerankCandidates !== undefined) await save('rerankCandidates', retrievalConfig.rerankCandidates.toString());
+      if (queryRewrite !== undefined) await save('queryRewrite', retrievalConfig.queryRewrite.toString());
+      if (queryRewriteTurns !== undefined) await save('queryRewriteTurns', retrievalConfig.queryRewriteTurns.toString());
+
+      // Update conversation history window
+      if (historyMessages !== undefined) await save('historyMessages', historyConfig.historyMessages.toString());
+      if (historyTokenBudget !== undefined) await save('historyTokenBudget', historyConfig.historyTokenBudget.toString());
+
+      // Update memory settings
+      if (memoryClassifier) await save('memoryClassifier', memoryClassifier);
+      if (autoSave !== undefined) await save('autoSave', autoSave.toString());
+      if (duplicateThreshold !== undefined) await save('duplicateThreshold', duplicateThreshold.toString());
+
+      // Update usage pricing (applies to usage recorded from now on)
+      if (modelPrices !== undefined) await save('modelPrices', JSON.stringify(modelPrices));
 
       res.json({ message: "Settings updated successfully" });
     } catch (error) {
@@ -296,15 +843,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all settings including model configuration (using cache)
-  app.get("/api/settings", async (req, res) => {
+  // Drop the user's own overrides so the global settings apply again
+  app.delete("/api/settings/personal", requireScope("admin"), requireEditor, async (req, res) => {
+    try {
+      await clearUserSettings(req.user!.id);
+      res.json({ message: "Personal settings cleared successfully" });
+    } catch (error) {
+      console.error("Error clearing personal settings:", error);
+      res.status(500).json({ message: "Failed to clear personal settings" });
+    }
+  });
+
+  // Get all settings including model configuration (using cache), with the user's
+  // overrides applied and listed in personalOverrides
+  app.get("/api/settings", requireScope("admin"), async (req, res) => {
     try {
-      const settings = getAllSettingsFromCache();
+      const overrides = await getUserSettingOverrides(req.user!.id);
+      const settings = { ...getAllSettingsFromCache(), ...overrides };
+      const llmConfig = getLLMConfig(settings);
+      const chunkOptions = getChunkOptions(settings);
+      const retrievalConfig = getRetrievalConfig(settings);
+      const memoryClassifierConfig = getMemoryClassifierConfig(settings);
       res.json({
         systemPrompt: settings.systemPrompt || "You are a helpful AI assistant.",
         model: settings.model || "gpt-4o-mini",
         temperature: parseFloat(settings.temperature || "1.0"),
-        maxTokens: parseInt(settings.maxTokens || "2048")
+        maxTokens: parseInt(settings.maxTokens || "2048"),
+        contextWindow: parseInt(settings.contextWindow || "0") || 0,
+        llmProvider: llmConfig.provider,
+        llmBaseUrl: llmConfig.baseUrl,
+        embeddingModel: llmConfig.embeddingModel,
+        chunkStrategy: chunkOptions.strategy,
+        chunkSize: chunkOptions.chunkSize,
+        chunkOverlap: chunkOptions.chunkOverlap,
+        ...retrievalConfig,
+        ...getHistoryConfig(settings),
+        memoryClassifier: memoryClassifierConfig.classifier,
+        autoSave: memoryClassifierConfig.autoSave,
+        duplicateThreshold: getDuplicateThreshold(settings),
+        modelPrices: getModelPrices(settings),
+        personalOverrides: Object.keys(overrides),
+        overridableSettings: USER_SETTING_KEYS
       });
     } catch (error) {
       console.error("Error fetching settings:", error);
@@ -312,10 +891,695 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List versions of the shared system prompt, newest first
+  app.get("/api/prompt-versions", requireScope("admin"), requireRole("admin"), async (req, res) => {
+    try {
+      res.json(await listPromptVersions());
+    } catch (error) {
+      console.error("Error fetching prompt versions:", error);
+      res.status(500).json({ message: "Failed to fetch prompt versions" });
+    }
+  });
+
+  // Line diff of a version against ?against=<id>, by default the version before it
+  app.get("/api/prompt-versions/:id/diff", requireScope("admin"), requireRole("admin"), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const againstId = req.query.against !== undefined ? Number(req.query.against) : undefined;
+      if (!Number.isInteger(id) || (againstId !== undefined && !Number.isInteger(againstId))) {
+        return res.status(400).json({ message: "Version ids must be whole numbers" });
+      }
+
+      const diff = await diffPromptVersions(id, againstId);
+      if (!diff) {
+        return res.status(404).json({ message: "Prompt version not found" });
+      }
+      res.json(diff);
+    } catch (error) {
+      console.error("Error diffing prompt versions:", error);
+      res.status(500).json({ message: "Failed to diff prompt versions" });
+    }
+  });
+
+  // Make an earlier version the shared system prompt again; the rollback is itself a new version
+  app.post("/api/prompt-versions/:id/rollback", requireScope("admin"), requireRole("admin"), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: "Version ids must be whole numbers" });
+      }
+      const { note } = req.body ?? {};
+      const noteError = validatePromptNote(note);
+      if (noteError) {
+        return res.status(400).json({ message: noteError });
+      }
+
+      const version = await getPromptVersion(id);
+      if (!version) {
+        return res.status(404).json({ message: "Prompt version not found" });
+      }
+
+      const restored = await restorePromptVersion(version, req.user!.id, note);
+      if (!restored) {
+        return res.status(400).json({ message: "This version is already the current system prompt" });
+      }
+      res.json(restored);
+    } catch (error) {
+      console.error("Error rolling back system prompt:", error);
+      res.status(500).json({ message: "Failed to roll back system prompt" });
+    }
+  });
+
+  // List accounts and their roles
+  app.get("/api/users", requireScope("admin"), requireRole("admin"), async (req, res) => {
+    try {
+      res.json(await listUsers());
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  // Change an account's role; the last admin can't be demoted
+  app.patch("/api/users/:id/role", requireScope("admin"), requireRole("admin"), async (req, res) => {
+    try {
+      const { role } = req.body;
+      if (!USER_ROLES.includes(role)) {
+        return res.status(400).json({ message: `Role must be one of: ${USER_ROLES.join(', ')}` });
+      }
+
+      const user = await getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.role === "admin" && role !== "admin" && await countAdmins() <= 1) {
+        return res.status(400).json({ message: "There must be at least one admin" });
+      }
+
+      const updated = await setUserRole(user.id, role);
+      res.json(updated ? toPublicUser(updated) : null);
+    } catch (error) {
+      console.error("Error updating user role:", error);
+      res.status(500).json({ message: "Failed to update user role" });
+    }
+  });
+
+  // API keys are managed from a signed-in browser only, so a key can't mint more keys
+  app.get("/api/api-keys", requireSession, async (req, res) => {
+    try {
+      res.json(await listApiKeys(req.user!.id));
+    } catch (error) {
+      console.error("Error fetching API keys:", error);
+      res.status(500).json({ message: "Failed to fetch API keys" });
+    }
+  });
+
+  // Create a key; the plain key is in this response only
+  app.post("/api/api-keys", requireSession, async (req, res) => {
+    try {
+      const { name, scopes, expiresInDays } = req.body;
+
+      const optionsError = validateApiKeyOptions(name, scopes, expiresInDays, req.user!.role);
+      if (optionsError) {
+        return res.status(400).json({ message: optionsError });
+      }
+
+      res.status(201).json(await createApiKey(req.user!.id, name, scopes, expiresInDays ?? null));
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      res.status(500).json({ message: "Failed to create API key" });
+    }
+  });
+
+  app.delete("/api/api-keys/:id", requireSession, async (req, res) => {
+    try {
+      const revoked = await revokeApiKey(req.params.id, req.user!.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+
+      res.json({ message: "API key revoked successfully" });
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      res.status(500).json({ message: "Failed to revoke API key" });
+    }
+  });
+
+  // OpenAI-compatible facade, so OpenAI SDKs and IDE plugins pointed at /v1 get
+  // answers from the same retrieval pipeline. Authenticated like /api, with the chat scope.
+  app.use("/v1", (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return sendOpenAIError(res, 401, "Missing API key - send it as Authorization: Bearer <key>", "invalid_request_error", "invalid_api_key");
+    }
+    if (req.apiKey && !hasApiKeyScope(req.apiKey, "chat")) {
+      return sendOpenAIError(res, 403, "This API key doesn't have the chat scope", "permission_error");
+    }
+    next();
+  });
+
+  // The only model on offer is the one configured in settings
+  app.get("/v1/models", async (req, res) => {
+    try {
+      const settings = await getSettingsForUser(req.user!.id);
+      const modelOptions = getModelOptions(settings);
+      if ("error" in modelOptions) {
+        return sendOpenAIError(res, 500, modelOptions.error, "server_error");
+      }
+
+      res.json({
+        object: "list",
+        data: [{ id: modelOptions.options.model, object: "model", created: 0, owned_by: "system" }],
+      });
+    } catch (error) {
+      console.error("Error listing models:", error);
+      sendOpenAIError(res, 500, "Failed to list models", "server_error");
+    }
+  });
+
+  app.post("/v1/chat/completions", async (req, res) => {
+    const parsed = parseOpenAIMessages(req.body?.messages);
+    if ("error" in parsed) {
+      return sendOpenAIError(res, 400, parsed.error, "invalid_request_error", "invalid_value", "messages");
+    }
+    if (req.body.stream !== undefined && typeof req.body.stream !== "boolean") {
+      return sendOpenAIError(res, 400, "stream must be a boolean", "invalid_request_error", "invalid_value", "stream");
+    }
+
+    let settings: Record<string, string>;
+    try {
+      settings = await getSettingsForUser(req.user!.id);
+    } catch (error) {
+      console.error("Error loading settings:", error);
+      return sendOpenAIError(res, 500, "Failed to process request", "server_error");
+    }
+    const modelOptions = getModelOptions(settings);
+    if ("error" in modelOptions) {
+      return sendOpenAIError(res, 500, modelOptions.error, "server_error");
+    }
+
+    if (req.body.stream) {
+      await streamCompletion(req, res, parsed, modelOptions.options, settings);
+    } else {
+      await completeChat(req, res, parsed, modelOptions.options, settings);
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
 
+function parseVectorFilter(filters: unknown): { filter?: VectorFilter } | { error: string } {
+  if (filters === undefined || filters === null) return {};
+  if (typeof filters !== "object") return { error: "Filters must be an object" };
+
+  const { kind, documentId, source, from, to } = filters as Record<string, unknown>;
+  if (kind !== undefined && kind !== "conversation" && kind !== "document") {
+    return { error: "Filter kind must be 'conversation' or 'document'" };
+  }
+  for (const [name, value] of Object.entries({ documentId, source })) {
+    if (value !== undefined && typeof value !== "string") {
+      return { error: `Filter ${name} must be a string` };
+    }
+  }
+
+  // Normalize dates so they compare correctly against the stored ISO timestamps
+  const dates: { from?: string; to?: string } = {};
+  for (const [name, value] of Object.entries({ from, to })) {
+    if (value === undefined || value === "") continue;
+    const date = new Date(value as string);
+    if (typeof value !== "string" || isNaN(date.getTime())) {
+      return { error: `Filter ${name} must be a valid date` };
+    }
+    dates[name as "from" | "to"] = date.toISOString();
+  }
+
+  return {
+    filter: {
+      kind: kind as VectorFilter["kind"],
+      documentId: (documentId as string) || undefined,
+      source: (source as string) || undefined,
+      ...dates,
+    },
+  };
+}
+
+// ALWAYS use database settings only - never use request parameters
+function getModelOptions(settings: Record<string, string>): { options: ChatOptions } | { error: string } {
+  const currentModel = settings.model;
+  const currentTemperature = parseFloat(settings.temperature);
+  const currentMaxTokens = parseInt(settings.maxTokens);
+  
+  // Validate required settings exist
+  if (!currentModel) {
+    return { error: "Model not configured. Please set model in settings." };
+  }
+  if (isNaN(currentTemperature)) {
+    return { error: "Temperature not configured. Please set temperature in settings." };
+  }
+  if (!currentMaxTokens) {
+    return { error: "Max tokens not configured. Please set maxTokens in settings." };
+  }
+  if (!settings.systemPrompt) {
+    return { error: "System prompt not configured. Please set system prompt in settings." };
+  }
+
+  return {
+    options: {
+      temperature: currentTemperature,
+      model: currentModel,
+      maxTokens: currentMaxTokens,
+    },
+  };
+}
+
+// Fit the conversation history and retrieved context into the model's context window
+function budgetPrompt(
+  content: string,
+  history: HistoryMessage[],
+  vectorMemoryContext: VectorMemoryContext[],
+  options: ChatOptions,
+  settings: Record<string, string>
+) {
+  return allocateTokenBudget({
+    model: options.model ?? "",
+    maxTokens: options.maxTokens ?? 0,
+    systemPrompt: settings.systemPrompt,
+    query: content,
+    history: selectHistoryWindow(history, getHistoryConfig(settings)),
+    context: vectorMemoryContext,
+  }, settings);
+}
+
+// Rewrite the query if needed, retrieve from the user's memory and fit everything into the prompt
+async function preparePrompt(
+  content: string,
+  history: HistoryMessage[],
+  userId: string,
+  options: ChatOptions,
+  settings: Record<string, string>
+) {
+  const searchQuery = await rewriteQuery(content, history, settings);
+  const retrieved = await retrieveMemoryContext(searchQuery.query, getMemoryScope(userId, settings), settings);
+  const prompt = budgetPrompt(content, history, retrieved, options, settings);
+  return { searchQuery, prompt };
+}
+
+// Judge whether a new answer is worth remembering, and save it straight away
+// when the classifier says so and auto-save is switched on
+async function applyMemoryDecision(
+  userMessage: ChatMessage,
+  assistantMessage: ChatMessage,
+  user: Express.User,
+  settings: Record<string, string>
+): Promise<{ assistantMessage: ChatMessage; memoryDecision: MemoryDecision }> {
+  const userId = user.id;
+  const { decision: memoryDecision, embedded } = await classifyMemory(
+    userMessage.content,
+    assistantMessage.content,
+    getMemoryScope(userId, settings),
+    settings
+  );
+
+  // Viewers can't write to memory, so their answers are never auto-saved
+  if (
+    memoryDecision.action !== "auto_save" ||
+    !getMemoryClassifierConfig(settings).autoSave ||
+    user.role === "viewer" ||
+    !vectorStore.getConnectionStatus()
+  ) {
+    return { assistantMessage, memoryDecision };
+  }
+
+  try {
+    const vectorIds = await saveAnswerToMemory(assistantMessage, userMessage, userId, embedded);
+    const updated = await updateMessage(assistantMessage.id, { savedToVector: true, vectorIds });
+    console.log(`💾 Auto-saved answer ${assistantMessage.id} to memory`);
+    return { assistantMessage: updated || assistantMessage, memoryDecision };
+  } catch (error) {
+    // The answer itself was delivered - leave it for a manual save
+    console.error("Error auto-saving answer:", error);
+    return { assistantMessage, memoryDecision };
+  }
+}
+
+// Send chat message and get AI response
+async function sendMessage(req: Request, res: Response, conversation: Conversation) {
+  const requestStartTime = Date.now();
+  
+  try {
+    const { content } = req.body;
+
+    if (!content || typeof content !== "string") {
+      return res.status(400).json({ message: "Content is required" });
+    }
+
+    // Cached global settings with the user's overrides applied
+    const userId = req.user!.id;
+    const settings = await getSettingsForUser(userId);
+    const modelOptions = getModelOptions(settings);
+    if ("error" in modelOptions) {
+      return res.status(400).json({ message: modelOptions.error });
+    }
+
+    // Earlier turns, read before the new message is saved
+    const history = await getMessages(conversation.id);
+
+    // Save user message
+    const userMessage = await addMessage({
+      conversationId: conversation.id,
+      content,
+      role: "user",
+      sources: [],
+    });
+    await autoTitleConversation(conversation, content);
+
+    // Every model call from here on is metered and recorded against the answer
+    const usageCalls: MeteredCall[] = [];
+    const { searchQuery, prompt, aiResponse } = await meterUsage(usageCalls, async () => {
+      const { searchQuery, prompt } = await preparePrompt(content, history, userId, modelOptions.options, settings);
+
+      // Generate AI response with vector memory context for optimal memory integration
+      const aiResponse = await generateChatResponse(content, prompt.context, {
+        ...modelOptions.options,
+        history: prompt.history,
+      }, settings);
+      return { searchQuery, prompt, aiResponse };
+    });
+
+    // Save AI response (vector saving is handled manually via UI toggles)
+    const assistantMessage = await addMessage({
+      conversationId: conversation.id,
+      content: aiResponse.content,
+      role: "assistant",
+      sources: aiResponse.sources,
+      savedToVector: false, // Set by auto-save below or the manual PATCH endpoint
+    });
+    const remembered = await meterUsage(usageCalls, () => applyMemoryDecision(userMessage, assistantMessage, req.user!, settings));
+    const usage = await recordUsage(usageCalls, "chat", req.user!.id, assistantMessage.id, settings);
+
+    const totalDuration = Date.now() - requestStartTime;
+    console.log(`Message processed in ${totalDuration}ms`);
+
+    res.json({
+      userMessage,
+      assistantMessage: remembered.assistantMessage,
+      sources: aiResponse.sources,
+      memoryDecision: remembered.memoryDecision,
+      metadata: {
+        rewrittenQuery: searchQuery.rewritten ? searchQuery.query : null,
+        tokens: prompt.breakdown,
+        usage,
+      },
+    });
+  } catch (error) {
+    console.error("Error processing message:", error);
+    res.status(500).json({ message: "Failed to process message" });
+  }
+}
+
+// Send chat message and stream the AI response as Server-Sent Events:
+// `user` (saved user message), `sources`, repeated `delta`, then `done` or `error`
+async function streamMessage(req: Request, res: Response, conversation: Conversation) {
+  const requestStartTime = Date.now();
+  const { content } = req.body;
+
+  if (!content || typeof content !== "string") {
+    return res.status(400).json({ message: "Content is required" });
+  }
+
+  const userId = req.user!.id;
+  let settings: Record<string, string>;
+  try {
+    settings = await getSettingsForUser(userId);
+  } catch (error) {
+    console.error("Error loading settings:", error);
+    return res.status(500).json({ message: "Failed to process message" });
+  }
+  const modelOptions = getModelOptions(settings);
+  if ("error" in modelOptions) {
+    return res.status(400).json({ message: modelOptions.error });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: unknown) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  // Client disconnect (e.g. the stop button) cancels generation
+  const abortController = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) abortController.abort();
+  });
+
+  try {
+    const history = await getMessages(conversation.id);
+    const userMessage = await addMessage({
+      conversationId: conversation.id,
+      content,
+      role: "user",
+      sources: [],
+    });
+    await autoTitleConversation(conversation, content);
+    sendEvent("user", userMessage);
+
+    const usageCalls: MeteredCall[] = [];
+    const { searchQuery, prompt, aiResponse } = await meterUsage(usageCalls, async () => {
+      const { searchQuery, prompt } = await preparePrompt(content, history, userId, modelOptions.options, settings);
+      sendEvent("sources", { sources: describeSources(prompt.context) });
+
+      const aiResponse = await streamChatResponse(content, prompt.context, {
+        ...modelOptions.options,
+        history: prompt.history,
+      }, settings, {
+        onDelta: (delta) => sendEvent("delta", { delta }),
+        signal: abortController.signal,
+      });
+      return { searchQuery, prompt, aiResponse };
+    });
+
+    // Cancelled before the first token - there is no answer to keep, but the
+    // prompt was still sent. A partial answer is saved so the thread matches what the user saw.
+    if (!aiResponse.content) {
+      await recordUsage(usageCalls, "chat", req.user!.id, null, settings);
+      res.end();
+      return;
+    }
+
+    const assistantMessage = await addMessage({
+      conversationId: conversation.id,
+      content: aiResponse.content,
+      role: "assistant",
+      sources: aiResponse.sources,
+      savedToVector: false,
+    });
+
+    // A cancelled answer is incomplete, so it is never judged for memory
+    const remembered = aiResponse.aborted
+      ? { assistantMessage, memoryDecision: null }
+      : await meterUsage(usageCalls, () => applyMemoryDecision(userMessage, assistantMessage, req.user!, settings));
+    const usage = await recordUsage(usageCalls, "chat", req.user!.id, assistantMessage.id, settings);
+
+    const totalDuration = Date.now() - requestStartTime;
+    console.log(`Message ${aiResponse.aborted ? "cancelled" : "streamed"} in ${totalDuration}ms`);
+
+    sendEvent("done", {
+      userMessage,
+      assistantMessage: remembered.assistantMessage,
+      sources: aiResponse.sources,
+      cancelled: aiResponse.aborted,
+      memoryDecision: remembered.memoryDecision,
+      metadata: {
+        rewrittenQuery: searchQuery.rewritten ? searchQuery.query : null,
+        tokens: prompt.breakdown,
+        usage,
+      },
+    });
+  } catch (error) {
+    console.error("Error streaming message:", error);
+    sendEvent("error", { message: "Failed to process message" });
+  } finally {
+    res.end();
+  }
+}
+
+function sendOpenAIError(
+  res: Response,
+  status: number,
+  message: string,
+  type: string,
+  code: string | null = null,
+  param: string | null = null
+) {
+  res.status(status).json({ error: { message, type, param, code } });
+}
+
+interface OpenAIConversation {
+  query: string;
+  history: HistoryMessage[];
+}
+
+// The last message is the query and earlier user/assistant turns are history. System and
+// developer messages are ignored - the system prompt always comes from settings - and so
+// are tool messages. Content may be a string or a list of parts; only text parts are read.
+function parseOpenAIMessages(messages: unknown): OpenAIConversation | { error: string } {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return { error: "messages must be a non-empty array" };
+  }
+
+  const turns: HistoryMessage[] = [];
+  for (const message of messages) {
+    if (!message || typeof message !== "object" || typeof message.role !== "string") {
+      return { error: "Each message must be an object with a role" };
+    }
+    if (message.role !== "user" && message.role !== "assistant") continue;
+
+    const { content } = message;
+    let text: string;
+    if (typeof content === "string") {
+      text = content;
+    } else if (Array.isArray(content)) {
+      text = content
+        .filter((part) => part && part.type === "text" && typeof part.text === "string")
+        .map((part) => part.text)
+        .join("\n");
+    } else if (content === null || content === undefined) {
+      text = "";
+    } else {
+      return { error: "Message content must be a string or an array of content parts" };
+    }
+    turns.push({ role: message.role, content: text });
+  }
+
+  const last = turns[turns.length - 1];
+  if (!last || last.role !== "user" || !last.content.trim()) {
+    return { error: "The last user or assistant message must be a non-empty user message" };
+  }
+  return { query: last.content, history: turns.slice(0, -1) };
+}
+
+function toOpenAIUsage(usage: UsageSummary | null) {
+  const promptTokens = (usage?.inputTokens ?? 0) + (usage?.embeddingTokens ?? 0);
+  const completionTokens = usage?.outputTokens ?? 0;
+  return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+}
+
+// Answer an OpenAI chat completion request. Nothing is stored as a conversation;
+// usage is still recorded. Retrieved sources are returned in x_sources.
+async function completeChat(
+  req: Request,
+  res: Response,
+  conversation: OpenAIConversation,
+  options: ChatOptions,
+  settings: Record<string, string>
+) {
+  const requestStartTime = Date.now();
+
+  try {
+    const usageCalls: MeteredCall[] = [];
+    const aiResponse = await meterUsage(usageCalls, async () => {
+      const { prompt } = await preparePrompt(conversation.query, conversation.history, req.user!.id, options, settings);
+      return generateChatResponse(conversation.query, prompt.context, { ...options, history: prompt.history }, settings);
+    });
+    const usage = await recordUsage(usageCalls, "chat", req.user!.id, null, settings);
+
+    console.log(`Chat completion processed in ${Date.now() - requestStartTime}ms`);
+
+    res.json({
+      id: `chatcmpl-${randomUUID()}`,
+      object: "chat.completion",
+      created: Math.floor(requestStartTime / 1000),
+      model: options.model,
+      choices: [{
+        index: 0,
+        message: { role: "assistant", content: aiResponse.content },
+        finish_reason: "stop",
+      }],
+      usage: toOpenAIUsage(usage),
+      x_sources: aiResponse.sources,
+    });
+  } catch (error) {
+    console.error("Error processing chat completion:", error);
+    sendOpenAIError(res, 500, "Failed to process request", "server_error");
+  }
+}
+
+// Stream an OpenAI chat completion as chat.completion.chunk events ending in [DONE].
+// The first chunk carries the retrieved sources in x_sources; usage is sent in a final
+// chunk when stream_options.include_usage is set, as OpenAI does.
+async function streamCompletion(
+  req: Request,
+  res: Response,
+  conversation: OpenAIConversation,
+  options: ChatOptions,
+  settings: Record<string, string>
+) {
+  const requestStartTime = Date.now();
+  const id = `chatcmpl-${randomUUID()}`;
+  const created = Math.floor(requestStartTime / 1000);
+  const includeUsage = req.body.stream_options?.include_usage === true;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  const sendChunk = (data: unknown) => {
+    if (!res.writableEnded) {
+      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+  const chunk = (delta: Record<string, string>, finishReason: string | null, extra: Record<string, unknown> = {}) => ({
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model: options.model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+    ...extra,
+  });
+
+  const abortController = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) abortController.abort();
+  });
+
+  try {
+    const usageCalls: MeteredCall[] = [];
+    const aiResponse = await meterUsage(usageCalls, async () => {
+      const { prompt } = await preparePrompt(conversation.query, conversation.history, req.user!.id, options, settings);
+      sendChunk(chunk({ role: "assistant", content: "" }, null, { x_sources: describeSources(prompt.context) }));
+
+      return streamChatResponse(conversation.query, prompt.context, { ...options, history: prompt.history }, settings, {
+        onDelta: (delta) => sendChunk(chunk({ content: delta }, null)),
+        signal: abortController.signal,
+      });
+    });
+    const usage = await recordUsage(usageCalls, "chat", req.user!.id, null, settings);
+
+    console.log(`Chat completion ${aiResponse.aborted ? "cancelled" : "streamed"} in ${Date.now() - requestStartTime}ms`);
+
+    sendChunk(chunk({}, "stop"));
+    if (includeUsage) {
+      sendChunk({ id, object: "chat.completion.chunk", created, model: options.model, choices: [], usage: toOpenAIUsage(usage) });
+    }
+    if (!res.writableEnded) res.write("data: [DONE]\n\n");
+  } catch (error) {
+    console.error("Error streaming chat completion:", error);
+    sendChunk({ error: { message: "Failed to process request", type: "server_error", param: null, code: null } });
+  } finally {
+    res.end();
+  }
+}
+
 function getTimeAgo(date: Date): string {
   const now = new Date();
   const diffMs = now.getTime() - date.getTime();
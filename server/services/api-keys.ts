@@ -0,0 +1,130 @@
+import { createHash, randomBytes } from 'crypto';
+import { and, desc, eq } from 'drizzle-orm';
+import { db } from './database';
+import { getUser, toPublicUser } from './users';
+import {
+  apiKeys,
+  API_KEY_SCOPES,
+  type ApiKey,
+  type ApiKeyScope,
+  type CreatedApiKey,
+  type PublicApiKey,
+  type PublicUser,
+  type UserRole,
+} from '../../shared/schema';
+
+const KEY_PREFIX = 'rag_';
+const PREFIX_LENGTH = 12;
+export const MAX_API_KEY_NAME_LENGTH = 100;
+export const MAX_API_KEY_DAYS = 3650;
+
+// Keys are long random strings, so a plain SHA-256 is enough to store them safely
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function toPublicApiKey(apiKey: ApiKey): PublicApiKey {
+  const { keyHash, ...publicKey } = apiKey;
+  return publicKey;
+}
+
+// Returns an error message, or null when a key with these options can be created
+export function validateApiKeyOptions(
+  name: unknown,
+  scopes: unknown,
+  expiresInDays: unknown,
+  role: UserRole
+): string | null {
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_API_KEY_NAME_LENGTH) {
+    return `Name must be 1 to ${MAX_API_KEY_NAME_LENGTH} characters`;
+  }
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every((scope) => API_KEY_SCOPES.includes(scope))) {
+    return `Scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`;
+  }
+  if (scopes.includes('admin') && role !== 'admin') {
+    return 'Only admins can create keys with the admin scope';
+  }
+  if (expiresInDays !== undefined && expiresInDays !== null &&
+      (!Number.isInteger(expiresInDays) || (expiresInDays as number) < 1 || (expiresInDays as number) > MAX_API_KEY_DAYS)) {
+    return `Expiry must be a whole number of days between 1 and ${MAX_API_KEY_DAYS}, or null for no expiry`;
+  }
+  return null;
+}
+
+export async function listApiKeys(userId: string): Promise<PublicApiKey[]> {
+  try {
+    const rows = await db.select().from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+    return rows.map(toPublicApiKey);
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+    throw error;
+  }
+}
+
+export async function createApiKey(
+  userId: string,
+  name: string,
+  scopes: ApiKeyScope[],
+  expiresInDays: number | null = null
+): Promise<CreatedApiKey> {
+  try {
+    const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null;
+
+    const [created] = await db.insert(apiKeys).values({
+      userId,
+      name: name.trim(),
+      prefix: key.substring(0, PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+      scopes: Array.from(new Set(scopes)),
+      expiresAt,
+    }).returning();
+
+    console.log(`🔑 Created API key ${created.prefix}… (${created.scopes.join(', ')})`);
+    return { ...toPublicApiKey(created), key };
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    throw error;
+  }
+}
+
+// Revoking deletes the key; requests using it fail from then on
+export async function revokeApiKey(id: string, userId: string): Promise<boolean> {
+  try {
+    const deleted = await db.delete(apiKeys)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId)))
+      .returning({ id: apiKeys.id });
+    return deleted.length > 0;
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    throw error;
+  }
+}
+
+// Look up the key and its owner, recording the use. Unknown and expired keys give null.
+export async function authenticateApiKey(key: string): Promise<{ user: PublicUser; apiKey: PublicApiKey } | null> {
+  try {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, hashApiKey(key))).limit(1);
+    if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) return null;
+
+    const user = await getUser(apiKey.userId);
+    if (!user) return null;
+
+    const [used] = await db.update(apiKeys)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(apiKeys.id, apiKey.id))
+      .returning();
+
+    return { user: toPublicUser(user), apiKey: toPublicApiKey(used ?? apiKey) };
+  } catch (error) {
+    console.error('Error authenticating API key:', error);
+    throw error;
+  }
+}
+
+// The admin scope stands in for every other scope
+export function hasApiKeyScope(apiKey: PublicApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes('admin') || apiKey.scopes.includes(scope);
+}
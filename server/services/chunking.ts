@@ -0,0 +1,221 @@
+import { getAllSettingsFromCache } from './database';
+
+export const CHUNK_STRATEGIES = ['fixed', 'sentence', 'markdown'] as const;
+export type ChunkStrategy = typeof CHUNK_STRATEGIES[number];
+
+export interface ChunkOptions {
+  strategy: ChunkStrategy;
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  strategy: 'sentence',
+  chunkSize: 1000,
+  chunkOverlap: 200,
+};
+
+// Chunks are stored verbatim as vector metadata, so keep them well under backend limits
+export const MIN_CHUNK_SIZE = 100;
+export const MAX_CHUNK_SIZE = 4000;
+
+// Chunking configuration lives in the settings table alongside the model settings
+export function getChunkOptions(settings: Record<string, string> = getAllSettingsFromCache()): ChunkOptions {
+  const strategy = CHUNK_STRATEGIES.includes(settings.chunkStrategy as ChunkStrategy)
+    ? settings.chunkStrategy as ChunkStrategy
+    : DEFAULT_CHUNK_OPTIONS.strategy;
+  const chunkSize = parseInt(settings.chunkSize || '', 10);
+  const chunkOverlap = parseInt(settings.chunkOverlap || '', 10);
+
+  const options = {
+    strategy,
+    chunkSize: Number.isNaN(chunkSize) ? DEFAULT_CHUNK_OPTIONS.chunkSize : chunkSize,
+    chunkOverlap: Number.isNaN(chunkOverlap) ? DEFAULT_CHUNK_OPTIONS.chunkOverlap : chunkOverlap,
+  };
+  return validateChunkOptions(options) ? DEFAULT_CHUNK_OPTIONS : options;
+}
+
+// Returns an error message, or null when the options are usable
+export function validateChunkOptions(options: ChunkOptions): string | null {
+  if (!CHUNK_STRATEGIES.includes(options.strategy)) {
+    return `Chunk strategy must be one of: ${CHUNK_STRATEGIES.join(', ')}`;
+  }
+  if (!Number.isInteger(options.chunkSize) || options.chunkSize < MIN_CHUNK_SIZE || options.chunkSize > MAX_CHUNK_SIZE) {
+    return `Chunk size must be a whole number between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE}`;
+  }
+  if (!Number.isInteger(options.chunkOverlap) || options.chunkOverlap < 0 || options.chunkOverlap > options.chunkSize / 2) {
+    return "Chunk overlap must be a whole number between 0 and half the chunk size";
+  }
+  return null;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\r\n/g, '\n').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Split text into fixed-size character windows that overlap, preferring to
+// break on whitespace so words are not cut in half
+function chunkFixed(text: string, chunkSize: number, chunkOverlap: number): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + chunkSize, text.length);
+
+    if (end < text.length) {
+      const lastBreak = Math.max(text.lastIndexOf(' ', end), text.lastIndexOf('\n', end));
+      if (lastBreak > start + chunkSize / 2) end = lastBreak;
+    }
+
+    const chunk = text.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+
+    if (end >= text.length) break;
+
+    // Start the overlap on a word boundary too
+    let next = Math.max(end - chunkOverlap, start + 1);
+    const nextBreak = text.slice(next, end).search(/\s/);
+    if (next > 0 && !/\s/.test(text[next - 1]) && nextBreak >= 0) next += nextBreak + 1;
+    start = next;
+  }
+
+  return chunks;
+}
+
+interface TextUnit {
+  text: string;
+  startsParagraph: boolean;
+}
+
+// Break text into paragraphs, then sentences, then fixed windows - whatever it
+// takes for every unit to fit in a chunk on its own
+function splitIntoUnits(text: string, chunkSize: number): TextUnit[] {
+  const units: TextUnit[] = [];
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+
+    if (trimmed.length <= chunkSize) {
+      units.push({ text: trimmed, startsParagraph: true });
+      continue;
+    }
+
+    let first = true;
+    for (const sentence of trimmed.split(/(?<=[.!?])\s+/)) {
+      const pieces = sentence.length <= chunkSize ? [sentence] : chunkFixed(sentence, chunkSize, 0);
+      for (const piece of pieces) {
+        units.push({ text: piece, startsParagraph: first });
+        first = false;
+      }
+    }
+  }
+
+  return units;
+}
+
+function joinUnits(units: TextUnit[]): string {
+  return units
+    .map((unit, i) => (i === 0 ? unit.text : (unit.startsParagraph ? '\n\n' : ' ') + unit.text))
+    .join('');
+}
+
+// Greedily pack whole units into chunks, carrying trailing units forward as overlap
+function packUnits(units: TextUnit[], chunkSize: number, chunkOverlap: number, prefix = ''): string[] {
+  const chunks: string[] = [];
+  const budget = chunkSize - (prefix ? prefix.length + 2 : 0);
+  let current: TextUnit[] = [];
+  let carried = 0;
+
+  const emit = () => {
+    const body = joinUnits(current);
+    chunks.push(prefix ? `${prefix}\n\n${body}` : body);
+  };
+
+  for (const unit of units) {
+    if (current.length > carried && joinUnits([...current, unit]).length > budget) {
+      emit();
+
+      const overlap: TextUnit[] = [];
+      let overlapLength = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        overlapLength += current[i].text.length + 1;
+        if (overlapLength > chunkOverlap) break;
+        overlap.unshift(current[i]);
+      }
+      current = overlap;
+      carried = overlap.length;
+
+      // Drop the overlap if it would push the new unit over the limit
+      while (current.length > 0 && joinUnits([...current, unit]).length > budget) {
+        current.shift();
+        carried--;
+      }
+    }
+    current.push(unit);
+  }
+
+  if (current.length > carried) emit();
+  return chunks;
+}
+
+function chunkSentences(text: string, chunkSize: number, chunkOverlap: number): string[] {
+  return packUnits(splitIntoUnits(text, chunkSize), chunkSize, chunkOverlap);
+}
+
+// Split on Markdown headings (ignoring fenced code) so a chunk never spans two
+// sections; every chunk starts with its section heading for context. A heading is
+// never a chunk on its own: headings of empty sections lead the next section.
+function chunkMarkdown(text: string, chunkSize: number, chunkOverlap: number): string[] {
+  const sections: Array<{ heading: string; lines: string[] }> = [{ heading: '', lines: [] }];
+  let inFence = false;
+
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+    if (!inFence && /^#{1,6}\s+\S/.test(line)) {
+      sections.push({ heading: line.trim(), lines: [line] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  const chunks: string[] = [];
+  let pendingHeading = '';
+  for (const section of sections) {
+    const body = section.lines.slice(section.heading ? 1 : 0).join('\n').trim();
+    const heading = [pendingHeading, section.heading].filter(Boolean).join('\n\n');
+    if (!body) {
+      pendingHeading = heading;
+      continue;
+    }
+    pendingHeading = '';
+
+    if (heading.length <= chunkSize / 2) {
+      const budget = chunkSize - (heading ? heading.length + 2 : 0);
+      chunks.push(...packUnits(splitIntoUnits(body, budget), chunkSize, chunkOverlap, heading));
+    } else {
+      // Headings longer than half a chunk aren't worth repeating; they open the first paragraph
+      chunks.push(...packUnits(splitIntoUnits(`${heading}\n${body}`, chunkSize), chunkSize, chunkOverlap));
+    }
+  }
+
+  // A document of nothing but headings still gets stored
+  if (chunks.length === 0 && pendingHeading) chunks.push(pendingHeading);
+  return chunks;
+}
+
+export function chunkText(text: string, options: ChunkOptions = getChunkOptions()): string[] {
+  const normalized = normalizeText(text);
+  if (!normalized) return [];
+
+  const { strategy, chunkSize, chunkOverlap } = options;
+  switch (strategy) {
+    case 'fixed':
+      return chunkFixed(normalized, chunkSize, chunkOverlap);
+    case 'sentence':
+      return chunkSentences(normalized, chunkSize, chunkOverlap);
+    case 'markdown':
+      return chunkMarkdown(normalized, chunkSize, chunkOverlap);
+  }
+}
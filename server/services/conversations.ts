@@ -0,0 +1,208 @@
+import { db } from './database';
+import { conversations, messages, type ChatMessage, type Conversation, type InsertChatMessage } from '../../shared/schema';
+import { and, asc, desc, eq } from 'drizzle-orm';
+
+const DEFAULT_TITLE = 'New conversation';
+const MAX_TITLE_LENGTH = 60;
+
+// List a user's conversations, most recently active first
+export async function listConversations(userId: string, options: { archived?: boolean } = {}): Promise<Conversation[]> {
+  try {
+    return await db.select()
+      .from(conversations)
+      .where(and(eq(conversations.userId, userId), eq(conversations.archived, options.archived ?? false)))
+      .orderBy(desc(conversations.updatedAt));
+  } catch (error) {
+    console.error('Error listing conversations:', error);
+    throw error;
+  }
+}
+
+// Other users' conversations are reported as missing
+export async function getConversation(id: string, userId: string): Promise<Conversation | null> {
+  try {
+    const result = await db.select()
+      .from(conversations)
+      .where(and(eq(conversations.id, id), eq(conversations.userId, userId)))
+      .limit(1);
+
+    return result[0] || null;
+  } catch (error) {
+    console.error('Error getting conversation:', error);
+    throw error;
+  }
+}
+
+export async function createConversation(userId: string, title?: string): Promise<Conversation> {
+  try {
+    const [created] = await db.insert(conversations)
+      .values({ userId, title: title?.trim() || DEFAULT_TITLE })
+      .returning();
+
+    return created;
+  } catch (error) {
+    console.error('Error creating conversation:', error);
+    throw error;
+  }
+}
+
+export async function updateConversation(
+  id: string,
+  changes: Partial<Pick<Conversation, 'title' | 'archived'>>
+): Promise<Conversation | null> {
+  try {
+    const [updated] = await db.update(conversations)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+
+    return updated || null;
+  } catch (error) {
+    console.error('Error updating conversation:', error);
+    throw error;
+  }
+}
+
+// Deleting a conversation cascades to its messages
+export async function deleteConversation(id: string): Promise<boolean> {
+  try {
+    const deleted = await db.delete(conversations)
+      .where(eq(conversations.id, id))
+      .returning({ id: conversations.id });
+
+    return deleted.length > 0;
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    throw error;
+  }
+}
+
+export async function deleteAllConversations(userId: string): Promise<void> {
+  try {
+    await db.delete(conversations).where(eq(conversations.userId, userId));
+  } catch (error) {
+    console.error('Error deleting conversations:', error);
+    throw error;
+  }
+}
+
+// Name an untitled conversation after its first question
+export async function autoTitleConversation(conversation: Conversation, content: string): Promise<void> {
+  if (conversation.title !== DEFAULT_TITLE) return;
+
+  const firstLine = content.trim().split('\n')[0];
+  const title = firstLine.length > MAX_TITLE_LENGTH
+    ? firstLine.substring(0, MAX_TITLE_LENGTH - 1) + '…'
+    : firstLine;
+
+  if (title) {
+    await updateConversation(conversation.id, { title });
+  }
+}
+
+// Get the user's most recent active conversation, creating one on first use
+export async function getOrCreateDefaultConversation(userId: string): Promise<Conversation> {
+  try {
+    const existing = await db.select()
+      .from(conversations)
+      .where(and(eq(conversations.userId, userId), eq(conversations.archived, false)))
+      .orderBy(desc(conversations.updatedAt))
+      .limit(1);
+
+    if (existing.length > 0) {
+      return existing[0];
+    }
+
+    const [created] = await db.insert(conversations).values({ userId }).returning();
+    console.log('Created default conversation:', created.id);
+    return created;
+  } catch (error) {
+    console.error('Error getting default conversation:', error);
+    throw error;
+  }
+}
+
+// Get all messages of a conversation in chronological order
+export async function getMessages(conversationId: string): Promise<ChatMessage[]> {
+  try {
+    return await db.select()
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(asc(messages.timestamp));
+  } catch (error) {
+    console.error('Error getting messages:', error);
+    throw error;
+  }
+}
+
+export async function getMessage(id: string): Promise<ChatMessage | null> {
+  try {
+    const result = await db.select()
+      .from(messages)
+      .where(eq(messages.id, id))
+      .limit(1);
+
+    return result[0] || null;
+  } catch (error) {
+    console.error('Error getting message:', error);
+    throw error;
+  }
+}
+
+export async function addMessage(message: InsertChatMessage): Promise<ChatMessage> {
+  try {
+    const [created] = await db.insert(messages).values(message).returning();
+
+    // Bump the conversation so the most active thread sorts first
+    await db.update(conversations)
+      .set({ updatedAt: new Date() })
+      .where(eq(conversations.id, message.conversationId));
+
+    return created;
+  } catch (error) {
+    console.error('Error adding message:', error);
+    throw error;
+  }
+}
+
+export async function updateMessage(
+  id: string,
+  changes: Partial<Pick<ChatMessage, 'content' | 'sources' | 'savedToVector' | 'vectorIds'>>
+): Promise<ChatMessage | null> {
+  try {
+    const [updated] = await db.update(messages)
+      .set(changes)
+      .where(eq(messages.id, id))
+      .returning();
+
+    return updated || null;
+  } catch (error) {
+    console.error('Error updating message:', error);
+    throw error;
+  }
+}
+
+// Find the user message that prompted the given assistant message
+export async function getPrecedingUserMessage(message: ChatMessage): Promise<ChatMessage | null> {
+  const history = await getMessages(message.conversationId);
+  const index = history.findIndex((m) => m.id === message.id);
+  const previous = index > 0 ? history[index - 1] : null;
+
+  return previous && previous.role === 'user' ? previous : null;
+}
+
+export async function getLastMessage(userId: string): Promise<ChatMessage | null> {
+  try {
+    const result = await db.select({ message: messages })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(eq(conversations.userId, userId))
+      .orderBy(desc(messages.timestamp))
+      .limit(1);
+
+    return result[0]?.message || null;
+  } catch (error) {
+    console.error('Error getting last message:', error);
+    throw error;
+  }
+}
@@ -1,6 +1,6 @@
 import { drizzle } from 'drizzle-orm/node-postgres';
 import { Pool } from 'pg';
-import { settings } from '../../shared/schema';
+import { settings, userSettings } from '../../shared/schema';
 import { eq } from 'drizzle-orm';
 import dotenv from 'dotenv';
 dotenv.config();
@@ -32,7 +32,9 @@ export async function initializeDatabase() {
         { key: 'systemPrompt', value: 'You are a helpful AI assistant.' },
         { key: 'model', value: 'gpt-4o-mini' },
         { key: 'temperature', value: '1.0' },
-        { key: 'maxTokens', value: '2048' }
+        { key: 'maxTokens', value: '2048' },
+        { key: 'llmProvider', value: 'openai' },
+        { key: 'embeddingModel', value: 'text-embedding-3-small' }
       ];
 
       for (const setting of minimalDefaults) {
@@ -121,3 +123,81 @@ export async function setSetting(key: string, value: string): Promise<void> {
   }
 }
 
+// Settings a user can override for themselves. Provider, embedding, chunking and
+// pricing settings stay global because stored vectors and usage depend on them.
+export const USER_SETTING_KEYS = [
+  'systemPrompt',
+  'model',
+  'temperature',
+  'maxTokens',
+  'contextWindow',
+  'thresholdStrategy',
+  'similarityThreshold',
+  'topK',
+  'maxContextPairs',
+  'contextTokenBudget',
+  'keywordWeight',
+  'reranker',
+  'rerankCandidates',
+  'queryRewrite',
+  'queryRewriteTurns',
+  'historyMessages',
+  'historyTokenBudget',
+  'memoryClassifier',
+  'autoSave',
+  'duplicateThreshold',
+] as const;
+export type UserSettingKey = typeof USER_SETTING_KEYS[number];
+
+const userSettingsCache = new Map<string, Record<string, string>>();
+
+export async function getUserSettingOverrides(userId: string): Promise<Record<string, string>> {
+  const cached = userSettingsCache.get(userId);
+  if (cached) return { ...cached };
+
+  try {
+    const rows = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    const overrides: Record<string, string> = {};
+    for (const row of rows) {
+      overrides[row.key] = row.value;
+    }
+
+    userSettingsCache.set(userId, overrides);
+    return { ...overrides };
+  } catch (error) {
+    console.error('Error getting user settings:', error);
+    throw error;
+  }
+}
+
+// Global settings with the user's own overrides applied
+export async function getSettingsForUser(userId: string): Promise<Record<string, string>> {
+  return { ...getAllSettingsFromCache(), ...await getUserSettingOverrides(userId) };
+}
+
+export async function setUserSetting(userId: string, key: UserSettingKey, value: string): Promise<void> {
+  try {
+    await db.insert(userSettings)
+      .values({ userId, key, value })
+      .onConflictDoUpdate({
+        target: [userSettings.userId, userSettings.key],
+        set: { value, updatedAt: new Date() }
+      });
+
+    userSettingsCache.delete(userId);
+  } catch (error) {
+    console.error('Error setting user setting:', error);
+    throw error;
+  }
+}
+
+// Drop all of a user's overrides so the global settings apply again
+export async function clearUserSettings(userId: string): Promise<void> {
+  try {
+    await db.delete(userSettings).where(eq(userSettings.userId, userId));
+    userSettingsCache.delete(userId);
+  } catch (error) {
+    console.error('Error clearing user settings:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,181 @@
+import path from 'path';
+import { and, desc, eq } from 'drizzle-orm';
+import { extractText } from 'unpdf';
+import { db } from './database';
+import { generateEmbedding } from './openai';
+import { chunkText } from './chunking';
+import { vectorStore } from './vector-store';
+import { documents, type KnowledgeDocument } from '../../shared/schema';
+
+export type DocumentKind = 'text' | 'markdown' | 'html' | 'pdf';
+
+export interface UploadedDocument {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_CHUNKS_PER_DOCUMENT = 500;
+
+const EXTENSION_KINDS: Record<string, DocumentKind> = {
+  '.txt': 'text',
+  '.text': 'text',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.pdf': 'pdf',
+};
+
+const MIME_KINDS: Record<string, DocumentKind> = {
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'application/pdf': 'pdf',
+};
+
+// Browsers often send a generic mime type for Markdown, so the extension wins
+export function detectDocumentKind(file: Pick<UploadedDocument, 'originalname' | 'mimetype'>): DocumentKind | null {
+  const extension = path.extname(file.originalname).toLowerCase();
+  return EXTENSION_KINDS[extension] || MIME_KINDS[file.mimetype.split(';')[0].trim()] || null;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript|template)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|section|article|li|tr|h[1-6]|pre|blockquote)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n[ \t]+/g, '\n')
+    .trim();
+}
+
+export async function extractDocumentText(file: UploadedDocument, kind: DocumentKind): Promise<string> {
+  switch (kind) {
+    case 'text':
+    case 'markdown':
+      return file.buffer.toString('utf8');
+    case 'html':
+      return htmlToText(file.buffer.toString('utf8'));
+    case 'pdf': {
+      const { text } = await extractText(new Uint8Array(file.buffer), { mergePages: true });
+      return text;
+    }
+  }
+}
+
+export async function listDocuments(userId: string): Promise<KnowledgeDocument[]> {
+  try {
+    return await db.select().from(documents)
+      .where(eq(documents.userId, userId))
+      .orderBy(desc(documents.createdAt));
+  } catch (error) {
+    console.error('Error listing documents:', error);
+    throw error;
+  }
+}
+
+// Chunk IDs are derived from the document so deletion never needs a search
+function chunkVectorId(documentId: string, chunkIndex: number): string {
+  return `${documentId}:${chunkIndex}`;
+}
+
+async function deleteDocumentVectors(documentId: string, chunkCount: number): Promise<void> {
+  for (let i = 0; i < chunkCount; i++) {
+    await vectorStore.deleteVector(chunkVectorId(documentId, i));
+  }
+}
+
+// Extract, chunk, embed and index an uploaded file
+export async function ingestDocument(file: UploadedDocument, kind: DocumentKind, userId: string): Promise<KnowledgeDocument> {
+  const startTime = Date.now();
+  const text = await extractDocumentText(file, kind);
+  const chunks = chunkText(text);
+
+  if (chunks.length === 0) {
+    throw new Error('No text could be extracted from the document');
+  }
+  if (chunks.length > MAX_CHUNKS_PER_DOCUMENT) {
+    throw new Error(`Document is too large: ${chunks.length} chunks (maximum ${MAX_CHUNKS_PER_DOCUMENT})`);
+  }
+
+  const [document] = await db.insert(documents).values({
+    userId,
+    filename: file.originalname.substring(0, 255),
+    mimeType: file.mimetype.substring(0, 100),
+    size: file.size,
+  }).returning();
+
+  let inserted = 0;
+  try {
+    const timestamp = new Date().toISOString();
+
+    for (let i = 0; i < chunks.length; i++) {
+      const embedding = await generateEmbedding(chunks[i]);
+      await vectorStore.insertVector({
+        id: chunkVectorId(document.id, i),
+        query: `${document.filename} (part ${i + 1}/${chunks.length})`,
+        response: chunks[i],
+        embedding,
+        sources: [document.filename],
+        timestamp,
+        userId,
+        documentId: document.id,
+        documentName: document.filename,
+        chunkIndex: i,
+        chunkCount: chunks.length,
+      });
+      inserted++;
+    }
+
+    const [updated] = await db.update(documents)
+      .set({ chunkCount: chunks.length })
+      .where(eq(documents.id, document.id))
+      .returning();
+
+    console.log(`📄 Ingested ${document.filename}: ${chunks.length} chunks in ${Date.now() - startTime}ms`);
+    return updated;
+  } catch (error) {
+    // Roll back so a failed upload leaves nothing half-indexed
+    console.error(`Failed to ingest ${document.filename}, rolling back ${inserted} chunks:`, error);
+    await deleteDocumentVectors(document.id, inserted).catch((cleanupError) =>
+      console.error('Error cleaning up document vectors:', cleanupError)
+    );
+    await db.delete(documents).where(eq(documents.id, document.id));
+    throw error;
+  }
+}
+
+export async function deleteDocument(id: string, userId: string): Promise<boolean> {
+  try {
+    const [document] = await db.select().from(documents)
+      .where(and(eq(documents.id, id), eq(documents.userId, userId)))
+      .limit(1);
+    if (!document) return false;
+
+    await deleteDocumentVectors(document.id, document.chunkCount);
+    await db.delete(documents).where(eq(documents.id, id));
+    return true;
+  } catch (error) {
+    console.error('Error deleting document:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,66 @@
+import { getAllSettingsFromCache } from './database';
+import { estimateTokens } from './retrieval';
+import type { ChatTurn } from './llm';
+import type { ChatMessage } from '../../shared/schema';
+
+// Earlier turns as stored in a conversation, or as sent by an API client
+export type HistoryMessage = Pick<ChatMessage, 'role' | 'content'>;
+
+export interface HistoryConfig {
+  historyMessages: number;
+  historyTokenBudget: number;
+}
+
+export const DEFAULT_HISTORY_CONFIG: HistoryConfig = {
+  historyMessages: 10,
+  historyTokenBudget: 2048,
+};
+
+export const MAX_HISTORY_MESSAGES = 50;
+export const MAX_HISTORY_TOKEN_BUDGET = 32768;
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value === undefined || value === '' || Number.isNaN(parsed) ? fallback : parsed;
+}
+
+// The history window lives in the settings table alongside the retrieval settings
+export function getHistoryConfig(settings: Record<string, string> = getAllSettingsFromCache()): HistoryConfig {
+  const config = {
+    historyMessages: parseNumber(settings.historyMessages, DEFAULT_HISTORY_CONFIG.historyMessages),
+    historyTokenBudget: parseNumber(settings.historyTokenBudget, DEFAULT_HISTORY_CONFIG.historyTokenBudget),
+  };
+  return validateHistoryConfig(config) ? DEFAULT_HISTORY_CONFIG : config;
+}
+
+// Returns an error message, or null when the config is usable. Zero turns history off.
+export function validateHistoryConfig(config: HistoryConfig): string | null {
+  if (!Number.isInteger(config.historyMessages) || config.historyMessages < 0 || config.historyMessages > MAX_HISTORY_MESSAGES) {
+    return `History messages must be a whole number between 0 and ${MAX_HISTORY_MESSAGES}`;
+  }
+  if (!Number.isInteger(config.historyTokenBudget) || config.historyTokenBudget < 0 || config.historyTokenBudget > MAX_HISTORY_TOKEN_BUDGET) {
+    return `History token budget must be a whole number between 0 and ${MAX_HISTORY_TOKEN_BUDGET}`;
+  }
+  return null;
+}
+
+// The most recent messages that fit both the message limit and the token budget,
+// oldest first, as role-tagged turns. Stops at the first message that doesn't fit
+// so the window never has gaps.
+export function selectHistoryWindow(history: HistoryMessage[], config: HistoryConfig = getHistoryConfig()): ChatTurn[] {
+  const window: ChatTurn[] = [];
+  let usedTokens = 0;
+
+  for (let i = history.length - 1; i >= 0 && window.length < config.historyMessages; i--) {
+    const message = history[i];
+    if (!message.content.trim()) continue;
+
+    const tokens = estimateTokens(message.content);
+    if (usedTokens + tokens > config.historyTokenBudget) break;
+
+    window.unshift({ role: message.role, content: message.content });
+    usedTokens += tokens;
+  }
+
+  return window;
+}
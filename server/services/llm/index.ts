@@ -0,0 +1,88 @@
+import OpenAI from "openai";
+import dotenv from 'dotenv';
+import { getAllSettingsFromCache } from "../database";
+import { OpenAIChatProvider, OpenAICompatibleChatProvider, OpenAIEmbeddingProvider } from "./openai";
+import { MockChatProvider, MockEmbeddingProvider } from "./mock";
+import { MeteredChatProvider, MeteredEmbeddingProvider } from "./metered";
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  LLM_PROVIDER_TYPES,
+  type ChatProvider,
+  type EmbeddingProvider,
+  type LLMProviderType,
+} from "./types";
+dotenv.config();
+
+export * from "./types";
+export { meterUsage, type MeteredCall } from "./metered";
+
+export interface LLMConfig {
+  provider: LLMProviderType;
+  baseUrl: string;
+  embeddingModel: string;
+}
+
+// Provider configuration lives in the settings table so it can change without a restart
+export function getLLMConfig(settings: Record<string, string> = getAllSettingsFromCache()): LLMConfig {
+  const provider = LLM_PROVIDER_TYPES.includes(settings.llmProvider as LLMProviderType)
+    ? settings.llmProvider as LLMProviderType
+    : 'openai';
+
+  return {
+    provider,
+    baseUrl: settings.llmBaseUrl || '',
+    embeddingModel: settings.embeddingModel || DEFAULT_EMBEDDING_MODEL,
+  };
+}
+
+const clients = new Map<string, OpenAI>();
+
+function getClient(config: LLMConfig): OpenAI {
+  const key = `${config.provider}|${config.baseUrl}`;
+  let client = clients.get(key);
+  if (client) return client;
+
+  if (config.provider === 'openai-compatible') {
+    if (!config.baseUrl) {
+      throw new Error("Base URL must be configured for the OpenAI-compatible provider. Please set it in settings.");
+    }
+    client = new OpenAI({
+      baseURL: config.baseUrl,
+      // Local servers such as Ollama accept any key, but the SDK requires one. Never fall
+      // back to OPENAI_API_KEY: the base URL may point at a third-party host.
+      apiKey: process.env.LLM_API_KEY || "unused",
+    });
+  } else {
+    const apiKey = process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR;
+    if (!apiKey) {
+      throw new Error("OpenAI API key must be configured. Please set OPENAI_API_KEY environment variable.");
+    }
+    client = new OpenAI({ apiKey });
+  }
+
+  clients.set(key, client);
+  return client;
+}
+
+function createChatProvider(config: LLMConfig): ChatProvider {
+  switch (config.provider) {
+    case 'mock':
+      return new MockChatProvider();
+    case 'openai-compatible':
+      return new OpenAICompatibleChatProvider(getClient(config));
+    case 'openai':
+      return new OpenAIChatProvider(getClient(config));
+  }
+}
+
+// Providers are metered so token usage can be recorded per request - see ./metered
+export function getChatProvider(config: LLMConfig = getLLMConfig()): ChatProvider {
+  return new MeteredChatProvider(createChatProvider(config));
+}
+
+export function getEmbeddingProvider(config: LLMConfig = getLLMConfig()): EmbeddingProvider {
+  if (config.provider === 'mock') {
+    return new MeteredEmbeddingProvider(new MockEmbeddingProvider());
+  }
+  return new MeteredEmbeddingProvider(new OpenAIEmbeddingProvider(getClient(config), config.embeddingModel));
+}
@@ -0,0 +1,90 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  ChatProvider,
+  ChatTurn,
+  ChatUsage,
+  EmbeddingProvider,
+  EmbeddingResult,
+} from "./types";
+
+// One provider call made while a usage meter was running. The prompt and reply
+// text are kept only when the provider didn't report token counts, so they can
+// be estimated instead.
+export type MeteredCall =
+  | { type: 'chat'; model: string; usage?: ChatUsage; messages?: ChatTurn[]; content?: string }
+  | { type: 'embedding'; model: string; tokens?: number; text?: string };
+
+const currentMeter = new AsyncLocalStorage<MeteredCall[]>();
+
+// Collect every chat and embedding call made by fn, including ones deep inside
+// retrieval, reranking or memory classification, into calls
+export function meterUsage<T>(calls: MeteredCall[], fn: () => Promise<T>): Promise<T> {
+  return currentMeter.run(calls, fn);
+}
+
+function record(call: MeteredCall): void {
+  currentMeter.getStore()?.push(call);
+}
+
+function recordChat(request: ChatCompletionRequest, content: string, usage?: ChatUsage): void {
+  record(usage
+    ? { type: 'chat', model: request.model, usage }
+    : { type: 'chat', model: request.model, messages: request.messages, content });
+}
+
+// Wraps any chat provider so the calls it makes are reported to the running meter
+export class MeteredChatProvider implements ChatProvider {
+  constructor(private readonly provider: ChatProvider) {}
+
+  get name() {
+    return this.provider.name;
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const result = await this.provider.complete(request);
+    recordChat(request, result.content, result.usage);
+    return result;
+  }
+
+  async stream(request: ChatCompletionRequest, onDelta: (delta: string) => void): Promise<ChatCompletionResult> {
+    let streamed = "";
+    try {
+      const result = await this.provider.stream(request, (delta) => {
+        streamed += delta;
+        onDelta(delta);
+      });
+      recordChat(request, result.content, result.usage);
+      return result;
+    } catch (error) {
+      // A cancelled stream is still billed for the tokens produced so far
+      if (request.signal?.aborted) recordChat(request, streamed);
+      throw error;
+    }
+  }
+
+  checkConnection(): Promise<boolean> {
+    return this.provider.checkConnection();
+  }
+}
+
+export class MeteredEmbeddingProvider implements EmbeddingProvider {
+  constructor(private readonly provider: EmbeddingProvider) {}
+
+  get name() {
+    return this.provider.name;
+  }
+
+  get model() {
+    return this.provider.model;
+  }
+
+  async embed(text: string): Promise<EmbeddingResult> {
+    const result = await this.provider.embed(text);
+    record(result.tokens !== undefined
+      ? { type: 'embedding', model: this.provider.model, tokens: result.tokens }
+      : { type: 'embedding', model: this.provider.model, text });
+    return result;
+  }
+}
@@ -0,0 +1,70 @@
+import { createHash } from "crypto";
+import { VECTOR_DIM } from "../vector-store/types";
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  ChatProvider,
+  EmbeddingProvider,
+  EmbeddingResult,
+} from "./types";
+
+// Echo the question and cite every numbered source in the prompt
+function mockAnswer(request: ChatCompletionRequest): string {
+  const lastUser = [...request.messages].reverse().find((msg) => msg.role === 'user');
+  const citations = request.messages
+    .filter((msg) => msg.role === 'system')
+    .flatMap((msg) => msg.content.match(/^\[\d+\]/gm) || []);
+  return `Mock response (${request.model}) to: ${lastUser?.content ?? ''}` +
+    (citations.length > 0 ? ` ${citations.join('')}` : '');
+}
+
+// Deterministic provider for tests and offline development - no network calls
+export class MockChatProvider implements ChatProvider {
+  readonly name = 'Mock';
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    return { content: mockAnswer(request) };
+  }
+
+  async stream(request: ChatCompletionRequest, onDelta: (delta: string) => void): Promise<ChatCompletionResult> {
+    const content = mockAnswer(request);
+    let streamed = "";
+
+    for (const word of content.split(/(?<= )/)) {
+      if (request.signal?.aborted) {
+        throw new Error("Request was aborted");
+      }
+      streamed += word;
+      onDelta(word);
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    return { content: streamed };
+  }
+
+  async checkConnection(): Promise<boolean> {
+    return true;
+  }
+}
+
+// Hashes each word into a bucket so texts sharing words get similar vectors
+export class MockEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'Mock';
+  readonly model = 'mock-embedding';
+
+  constructor(private readonly dimension: number = VECTOR_DIM) {}
+
+  async embed(text: string): Promise<EmbeddingResult> {
+    const vector = new Array<number>(this.dimension).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+    for (const word of words) {
+      const hash = createHash('md5').update(word).digest();
+      const bucket = hash.readUInt32BE(0) % this.dimension;
+      vector[bucket] += hash[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return { embedding: norm === 0 ? vector : vector.map((value) => value / norm) };
+  }
+}
@@ -0,0 +1,160 @@
+import OpenAI from "openai";
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  ChatProvider,
+  ChatTurn,
+  ChatUsage,
+  EmbeddingProvider,
+  EmbeddingResult,
+} from "./types";
+
+// Reasoning models (o-series, gpt-5) reject a temperature, so it is left out for them
+function supportsTemperature(model: string): boolean {
+  return !/^(o\d|gpt-5)/.test(model);
+}
+
+// The system prompt goes in instructions; the history and query stay role-tagged input items
+function toResponseRequest(request: ChatCompletionRequest) {
+  const instructions = request.messages
+    .filter((msg) => msg.role === 'system')
+    .map((msg) => msg.content)
+    .join('\n\n');
+
+  return {
+    model: request.model,
+    instructions: instructions || undefined,
+    input: request.messages
+      .filter((msg): msg is ChatTurn & { role: 'user' | 'assistant' } => msg.role !== 'system')
+      .map(({ role, content }) => ({ role, content })),
+    max_output_tokens: request.maxTokens,
+    temperature: supportsTemperature(request.model) ? request.temperature : undefined,
+  };
+}
+
+// OpenAI's own API, using the Responses endpoint
+export class OpenAIChatProvider implements ChatProvider {
+  readonly name = 'OpenAI';
+
+  constructor(private readonly client: OpenAI) {}
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const response = await this.client.responses.create({
+      ...toResponseRequest(request),
+      stream: false,
+    }, { signal: request.signal });
+
+    return {
+      content: response.output_text || "",
+      usage: response.usage
+        ? { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens }
+        : undefined,
+    };
+  }
+
+  async stream(request: ChatCompletionRequest, onDelta: (delta: string) => void): Promise<ChatCompletionResult> {
+    const stream = await this.client.responses.create({
+      ...toResponseRequest(request),
+      stream: true,
+    }, { signal: request.signal });
+
+    let content = "";
+    let usage: ChatUsage | undefined;
+    for await (const event of stream) {
+      if (event.type === 'response.output_text.delta') {
+        content += event.delta;
+        onDelta(event.delta);
+      } else if (event.type === 'response.completed' && event.response.usage) {
+        usage = { inputTokens: event.response.usage.input_tokens, outputTokens: event.response.usage.output_tokens };
+      }
+    }
+
+    return { content, usage };
+  }
+
+  async checkConnection(): Promise<boolean> {
+    try {
+      await this.client.models.list();
+      return true;
+    } catch (error) {
+      console.error("OpenAI connection failed:", error);
+      return false;
+    }
+  }
+}
+
+// Any server speaking the Chat Completions protocol (Ollama, vLLM, LM Studio, ...)
+export class OpenAICompatibleChatProvider implements ChatProvider {
+  readonly name = 'OpenAI-compatible';
+
+  constructor(private readonly client: OpenAI) {}
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    }, { signal: request.signal });
+
+    return {
+      content: completion.choices[0]?.message?.content || "",
+      usage: completion.usage
+        ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens }
+        : undefined,
+    };
+  }
+
+  async stream(request: ChatCompletionRequest, onDelta: (delta: string) => void): Promise<ChatCompletionResult> {
+    const stream = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+      // Servers that support it send usage in a final chunk with no choices
+      stream_options: { include_usage: true },
+    }, { signal: request.signal });
+
+    let content = "";
+    let usage: ChatUsage | undefined;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (chunk.usage) {
+        usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+      }
+    }
+
+    return { content, usage };
+  }
+
+  async checkConnection(): Promise<boolean> {
+    try {
+      await this.client.models.list();
+      return true;
+    } catch (error) {
+      console.error(`OpenAI-compatible endpoint ${this.client.baseURL} unreachable:`, error);
+      return false;
+    }
+  }
+}
+
+// The embeddings endpoint is the same for OpenAI and compatible servers
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'OpenAI';
+
+  constructor(private readonly client: OpenAI, readonly model: string) {}
+
+  async embed(text: string): Promise<EmbeddingResult> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: text,
+    });
+
+    return { embedding: response.data[0].embedding, tokens: response.usage?.prompt_tokens };
+  }
+}
@@ -0,0 +1,48 @@
+export interface ChatTurn {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatTurn[];
+  maxTokens: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+// Token counts as reported by the provider; absent when the server doesn't report them
+export interface ChatUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  usage?: ChatUsage;
+}
+
+export interface EmbeddingResult {
+  embedding: number[];
+  tokens?: number;
+}
+
+export interface ChatProvider {
+  readonly name: string;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  // Calls onDelta for each text fragment and resolves with the full text
+  stream(request: ChatCompletionRequest, onDelta: (delta: string) => void): Promise<ChatCompletionResult>;
+  checkConnection(): Promise<boolean>;
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  embed(text: string): Promise<EmbeddingResult>;
+}
+
+export type LLMProviderType = 'openai' | 'openai-compatible' | 'mock';
+
+export const LLM_PROVIDER_TYPES: LLMProviderType[] = ['openai', 'openai-compatible', 'mock'];
+
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
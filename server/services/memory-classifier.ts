@@ -0,0 +1,181 @@
+import { getAllSettingsFromCache } from './database';
+import { getChatProvider, getLLMConfig } from './llm';
+import { embedChunks, findDuplicateMemories, getDuplicateThreshold, type EmbeddedChunks } from './memory';
+import { vectorStore, type VectorFilter } from './vector-store';
+import type { MemoryDecision } from '../../shared/schema';
+
+export const MEMORY_CLASSIFIERS = ['heuristic', 'llm'] as const;
+export type MemoryClassifier = typeof MEMORY_CLASSIFIERS[number];
+
+export interface MemoryClassifierConfig {
+  classifier: MemoryClassifier;
+  autoSave: boolean;
+}
+
+// The answer's embedded chunks come back when the duplicate check needed them,
+// so an auto-save can reuse them
+export interface MemoryClassification {
+  decision: MemoryDecision;
+  embedded?: EmbeddedChunks;
+}
+
+export const DEFAULT_MEMORY_CLASSIFIER_CONFIG: MemoryClassifierConfig = {
+  classifier: 'heuristic',
+  autoSave: false,
+};
+
+const AUTO_SAVE_SCORE = 0.75;
+const PROMPT_USER_SCORE = 0.4;
+const MIN_ANSWER_LENGTH = 80;
+const LLM_JUDGE_TIMEOUT = 10000;
+
+const SMALL_TALK = /^(hi|hello|hey|yo|thanks|thank you|thx|ok|okay|cool|great|nice|bye|goodbye|good (morning|afternoon|evening|night)|how are you|what's up|lol)\b[\s!.?]*$/i;
+const NON_ANSWER = /\b(I don't know|I do not know|I'm not sure|I am not sure|I can't help|I cannot help|I'm unable to|I am unable to|as an AI|I don't have access)\b/i;
+const INFORMATIONAL_QUESTION = /^(how|what|why|when|where|which|who|explain|describe|define|list|compare|show|write)\b/i;
+
+// The classifier and the auto-save toggle live in the settings table so the sidebar applies server-side
+export function getMemoryClassifierConfig(settings: Record<string, string> = getAllSettingsFromCache()): MemoryClassifierConfig {
+  return {
+    classifier: MEMORY_CLASSIFIERS.includes(settings.memoryClassifier as MemoryClassifier)
+      ? settings.memoryClassifier as MemoryClassifier
+      : DEFAULT_MEMORY_CLASSIFIER_CONFIG.classifier,
+    autoSave: settings.autoSave === 'true',
+  };
+}
+
+function decide(score: number, reason: string): MemoryDecision {
+  const confidence = Number(Math.min(1, Math.max(0, score)).toFixed(2));
+  if (score >= AUTO_SAVE_SCORE) return { action: 'auto_save', reason, confidence };
+  if (score >= PROMPT_USER_SCORE) return { action: 'prompt_user', reason, confidence };
+  return { action: 'skip', reason, confidence: Number((1 - confidence).toFixed(2)) };
+}
+
+// Score how factual and reusable an answer looks from its shape alone
+export function classifyWithHeuristics(question: string, answer: string): MemoryDecision {
+  const trimmedQuestion = question.trim();
+  const trimmedAnswer = answer.trim();
+
+  if (SMALL_TALK.test(trimmedQuestion)) {
+    return { action: 'skip', reason: 'Small talk is not worth remembering.', confidence: 0.9 };
+  }
+  if (NON_ANSWER.test(trimmedAnswer)) {
+    return { action: 'skip', reason: 'The answer does not contain a usable answer.', confidence: 0.8 };
+  }
+  if (trimmedAnswer.length < MIN_ANSWER_LENGTH) {
+    return { action: 'skip', reason: 'The answer is too short to be useful later.', confidence: 0.7 };
+  }
+
+  const signals: string[] = [];
+  let score = 0.3;
+
+  if (INFORMATIONAL_QUESTION.test(trimmedQuestion) || trimmedQuestion.endsWith('?')) {
+    score += 0.15;
+    signals.push('responds to an informational question');
+  }
+  if (/```/.test(trimmedAnswer)) {
+    score += 0.2;
+    signals.push('contains code');
+  }
+  if (/^\s*([-*]|\d+\.)\s+/m.test(trimmedAnswer)) {
+    score += 0.1;
+    signals.push('has structured steps or lists');
+  }
+  if (/\d/.test(trimmedAnswer)) {
+    score += 0.1;
+    signals.push('includes concrete figures');
+  }
+  if (trimmedAnswer.length > 300) {
+    score += 0.1;
+    signals.push('is detailed');
+  }
+  if (/\b(is a|are a|refers to|means|is defined as|consists of)\b/i.test(trimmedAnswer)) {
+    score += 0.1;
+    signals.push('explains a concept');
+  }
+
+  const reason = signals.length > 0
+    ? `The answer ${signals.join(', ')}.`
+    : 'The answer has no clear factual or reusable content.';
+  return decide(score, reason);
+}
+
+// Ask the chat model to judge the answer; falls back to heuristics when the reply isn't usable
+async function classifyWithLLM(
+  question: string,
+  answer: string,
+  settings: Record<string, string>
+): Promise<MemoryDecision> {
+  const provider = getChatProvider(getLLMConfig(settings));
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const response = await Promise.race([
+    provider.complete({
+      model: settings.model,
+      maxTokens: 200,
+      temperature: 0,
+      messages: [
+        {
+          role: 'system',
+          content: 'You decide whether a question and answer pair is worth saving to long-term memory. ' +
+            'Save answers that are factual and reusable later. Do not save small talk, refusals or answers that only make sense in the moment. ' +
+            'Reply with JSON only: {"action": "auto_save" | "prompt_user" | "skip", "reason": "<one sentence>", "confidence": <0 to 1>}. ' +
+            'Use "prompt_user" when unsure.',
+        },
+        { role: 'user', content: `Question:\n${question}\n\nAnswer:\n${answer}` },
+      ],
+    }),
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${provider.name} memory judge timeout`)), LLM_JUDGE_TIMEOUT);
+    }),
+  ]).finally(() => clearTimeout(timer));
+
+  const json = response.content.match(/\{[\s\S]*\}/)?.[0];
+  const parsed = json ? JSON.parse(json) : null;
+  if (
+    !parsed ||
+    !['auto_save', 'prompt_user', 'skip'].includes(parsed.action) ||
+    typeof parsed.reason !== 'string' ||
+    typeof parsed.confidence !== 'number'
+  ) {
+    console.log('⚠️ Memory judge returned an unusable reply - using heuristics');
+    return classifyWithHeuristics(question, answer);
+  }
+
+  return {
+    action: parsed.action,
+    reason: parsed.reason,
+    confidence: Math.min(1, Math.max(0, parsed.confidence)),
+  };
+}
+
+// Decide whether a new answer should be kept in the memory the scope covers
+export async function classifyMemory(
+  question: string,
+  answer: string,
+  scope: VectorFilter,
+  settings: Record<string, string> = getAllSettingsFromCache()
+): Promise<MemoryClassification> {
+  const config = getMemoryClassifierConfig(settings);
+
+  try {
+    const decision = config.classifier === 'llm'
+      ? await classifyWithLLM(question, answer, settings)
+      : classifyWithHeuristics(question, answer);
+    console.log(`🧠 Memory decision (${config.classifier}): ${decision.action} (${decision.confidence.toFixed(2)}) - ${decision.reason}`);
+
+    // Only an answer that could be saved or offered for saving is checked for duplicates
+    if (decision.action === 'skip' || !vectorStore.getConnectionStatus()) return { decision };
+
+    // An answer this close to one already stored adds nothing new
+    const embedded = await embedChunks(answer);
+    const duplicates = await findDuplicateMemories(embedded, scope, getDuplicateThreshold(settings));
+    if (duplicates.length > 0) {
+      console.log('🧠 A very similar answer is already in memory - skipping');
+      return { decision: { action: 'skip', reason: 'A very similar answer is already in memory.', confidence: 0.9 }, embedded };
+    }
+    return { decision, embedded };
+  } catch (error) {
+    console.error('Error classifying memory:', error);
+    return { decision: classifyWithHeuristics(question, answer) };
+  }
+}
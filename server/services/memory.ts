@@ -0,0 +1,400 @@
+import { getAllSettingsFromCache } from './database';
+import { generateEmbedding } from './openai';
+import { chunkText } from './chunking';
+import {
+  vectorStore,
+  matchesVectorFilter,
+  type StoredVector,
+  type VectorFilter,
+  type VectorSearchResult,
+  type VectorListOptions,
+  type VectorListPage,
+} from './vector-store';
+import { getMessage, updateMessage } from './conversations';
+import type {
+  ChatMessage,
+  DuplicateCheck,
+  DuplicateMatch,
+  DuplicateResolution,
+  MemoryStatus,
+} from '../../shared/schema';
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.9;
+export const MIN_DUPLICATE_THRESHOLD = 0.5;
+const MAX_DUPLICATE_MATCHES = 5;
+const DUPLICATE_SNIPPET_LENGTH = 200;
+
+// The vectors a user may read: their own, plus those saved before accounts existed
+// when they are the account that took over the old data
+export function getMemoryScope(userId: string, settings: Record<string, string> = getAllSettingsFromCache()): VectorFilter {
+  return settings.legacyOwnerId === userId ? { userId, includeUnowned: true } : { userId };
+}
+
+// Chunk IDs are derived from the message so they can be found again without a search
+function answerVectorId(messageId: string, chunkIndex: number): string {
+  return `${messageId}:${chunkIndex}`;
+}
+
+// Messages written before structured citations hold plain string labels
+function sourceTitles(answer: ChatMessage): string[] {
+  return (answer.sources || []).map((source) => typeof source === 'string' ? source : source.title);
+}
+
+// An answer split into chunks the way it is saved, with one embedding per chunk, so the
+// duplicate check and the save that follows it embed the answer only once
+export interface EmbeddedChunks {
+  chunks: string[];
+  embeddings: number[][];
+}
+
+export async function embedChunks(content: string): Promise<EmbeddedChunks> {
+  const chunks = chunkText(content);
+  const embeddings: number[][] = [];
+  for (const chunk of chunks) {
+    embeddings.push(await generateEmbedding(chunk));
+  }
+  return { chunks, embeddings };
+}
+
+// Save an assistant answer as one vector per chunk, linked by messageId. Pass the
+// answer's already embedded chunks to skip embedding them again.
+export async function saveAnswerToMemory(
+  answer: ChatMessage,
+  question: ChatMessage,
+  userId: string,
+  embedded?: EmbeddedChunks
+): Promise<string[]> {
+  const chunks = embedded?.chunks ?? chunkText(answer.content);
+  const timestamp = new Date().toISOString();
+  const ids: string[] = [];
+
+  try {
+    for (let i = 0; i < chunks.length; i++) {
+      const id = answerVectorId(answer.id, i);
+      const embedding = embedded?.embeddings[i] ?? await generateEmbedding(chunks[i]);
+
+      await vectorStore.insertVector({
+        id,
+        query: question.content,
+        response: chunks[i],
+        embedding,
+        sources: sourceTitles(answer),
+        timestamp,
+        userId,
+        messageId: answer.id,
+        chunkIndex: i,
+        chunkCount: chunks.length,
+      });
+      ids.push(id);
+    }
+
+    if (chunks.length > 1) {
+      console.log(`🧩 Saved answer ${answer.id} as ${chunks.length} linked chunks`);
+    }
+    return ids;
+  } catch (error) {
+    // Don't leave part of an answer behind
+    for (const id of ids) {
+      await vectorStore.deleteVector(id).catch(() => undefined);
+    }
+    console.error('Error saving answer to memory:', error);
+    throw error;
+  }
+}
+
+// Remove a saved answer, except the vectors in keepIds (those of a re-save that
+// replaced it). Answers saved before vector IDs were recorded fall back to
+// re-chunking and an exact-text similarity sweep.
+export async function removeAnswerFromMemory(
+  answer: ChatMessage,
+  question: ChatMessage | null,
+  scope: VectorFilter,
+  keepIds: string[] = []
+): Promise<void> {
+  try {
+    const keep = new Set(keepIds);
+    if (answer.vectorIds.length > 0) {
+      for (const id of answer.vectorIds) {
+        if (!keep.has(id)) await vectorStore.deleteVector(id);
+      }
+      return;
+    }
+
+    if (!question) return;
+    await removeLegacyAnswer(answer, question, scope, keep);
+  } catch (error) {
+    console.error('Error removing answer from memory:', error);
+    throw error;
+  }
+}
+
+async function removeLegacyAnswer(answer: ChatMessage, question: ChatMessage, scope: VectorFilter, keep: Set<string>): Promise<void> {
+  const chunks = chunkText(answer.content);
+  for (let i = 0; i < chunks.length; i++) {
+    const id = answerVectorId(answer.id, i);
+    if (!keep.has(id)) await vectorStore.deleteVector(id);
+  }
+
+  const embedding = await generateEmbedding(chunks[0] ?? answer.content);
+  const similarResults = await vectorStore.searchSimilar(embedding, 0.95, 10, scope);
+  const leftovers = similarResults.filter((result) => !keep.has(result.id) && (
+    result.messageId === answer.id ||
+    (result.response.trim() === answer.content.trim() && result.query.trim() === question.content.trim())
+  ));
+
+  for (const result of leftovers) {
+    await vectorStore.deleteVector(result.id);
+  }
+}
+
+// Check saved answers against the vector store with a single fetch
+export async function getMemoryStatuses(answers: ChatMessage[]): Promise<Record<string, MemoryStatus>> {
+  const saved = answers.filter((answer) => answer.savedToVector);
+  const statuses: Record<string, MemoryStatus> = {};
+
+  const ids = saved.flatMap((answer) => answer.vectorIds);
+  const existing = new Set(
+    ids.length > 0 && vectorStore.getConnectionStatus()
+      ? (await vectorStore.fetchVectors(ids)).map((vector) => vector.id)
+      : []
+  );
+
+  for (const answer of saved) {
+    if (answer.vectorIds.length === 0 || !vectorStore.getConnectionStatus()) {
+      statuses[answer.id] = 'unverified';
+      continue;
+    }
+
+    const found = answer.vectorIds.filter((id) => existing.has(id)).length;
+    statuses[answer.id] = found === answer.vectorIds.length ? 'stored' : found > 0 ? 'partial' : 'missing';
+  }
+
+  return statuses;
+}
+
+// Edited memories are stored as a single vector, so keep them within backend metadata limits
+export const MAX_MEMORY_LENGTH = 8000;
+
+export async function countMemories(scope: VectorFilter): Promise<number> {
+  try {
+    return await vectorStore.countVectors(scope);
+  } catch (error) {
+    console.error('Error counting memories:', error);
+    throw error;
+  }
+}
+
+export async function listMemories(options: VectorListOptions): Promise<VectorListPage> {
+  try {
+    return await vectorStore.listVectors(options);
+  } catch (error) {
+    console.error('Error listing memories:', error);
+    throw error;
+  }
+}
+
+export async function getMemory(id: string): Promise<StoredVector | null> {
+  try {
+    const [memory] = await vectorStore.fetchVectors([id]);
+    return memory || null;
+  } catch (error) {
+    console.error('Error getting memory:', error);
+    throw error;
+  }
+}
+
+// Update a memory's text in place; the answer text is re-embedded under the same ID
+export async function updateMemory(
+  id: string,
+  changes: Partial<Pick<StoredVector, 'query' | 'response'>>
+): Promise<StoredVector | null> {
+  try {
+    const existing = await getMemory(id);
+    if (!existing) return null;
+
+    // Upserting replaces the whole record, so the answer is always re-embedded
+    const updated: StoredVector = { ...existing, ...changes };
+    const embedding = await generateEmbedding(updated.response);
+    await vectorStore.insertVector({ ...updated, embedding });
+    console.log(`✏️ Updated memory ${id}`);
+    return updated;
+  } catch (error) {
+    console.error('Error updating memory:', error);
+    throw error;
+  }
+}
+
+// Delete memories within the scope and unlink them from the messages they were saved from
+export async function deleteMemories(ids: string[], scope: VectorFilter): Promise<number> {
+  try {
+    const existing = (await vectorStore.fetchVectors(ids)).filter((memory) => matchesVectorFilter(memory, scope));
+
+    for (const memory of existing) {
+      await vectorStore.deleteVector(memory.id);
+    }
+
+    const deletedIds = new Set(existing.map((memory) => memory.id));
+    const messageIds = Array.from(new Set(existing.flatMap((memory) => memory.messageId ? [memory.messageId] : [])));
+    for (const messageId of messageIds) {
+      const message = await getMessage(messageId);
+      if (!message) continue;
+
+      const vectorIds = message.vectorIds.filter((vectorId) => !deletedIds.has(vectorId));
+      await updateMessage(messageId, { vectorIds, savedToVector: vectorIds.length > 0 });
+    }
+
+    return existing.length;
+  } catch (error) {
+    console.error('Error deleting memories:', error);
+    throw error;
+  }
+}
+
+// The duplicate threshold lives in the settings table alongside the retrieval settings
+export function getDuplicateThreshold(settings: Record<string, string> = getAllSettingsFromCache()): number {
+  const threshold = Number(settings.duplicateThreshold);
+  return settings.duplicateThreshold && !validateDuplicateThreshold(threshold) ? threshold : DEFAULT_DUPLICATE_THRESHOLD;
+}
+
+// Returns an error message, or null when the threshold is usable
+export function validateDuplicateThreshold(threshold: number): string | null {
+  if (typeof threshold !== 'number' || !(threshold >= MIN_DUPLICATE_THRESHOLD && threshold <= 1)) {
+    return `Duplicate threshold must be a number between ${MIN_DUPLICATE_THRESHOLD} and 1`;
+  }
+  return null;
+}
+
+// The message or document a chunk was split from, or the vector itself when it stands alone
+function memoryParentId(memory: StoredVector): string {
+  return memory.messageId ?? memory.documentId ?? memory.id;
+}
+
+// Find saved answers nearly identical to an answer's embedded chunks. Each chunk is
+// compared, the same way saved answers are embedded, and each older answer is listed
+// once with the similarity of its closest chunk.
+export async function findDuplicateMemories(
+  embedded: EmbeddedChunks,
+  scope: VectorFilter,
+  threshold: number = getDuplicateThreshold(),
+  excludeMessageId?: string
+): Promise<DuplicateMatch[]> {
+  if (!vectorStore.getConnectionStatus()) return [];
+
+  const best = new Map<string, VectorSearchResult>();
+  for (const embedding of embedded.embeddings) {
+    const results = await vectorStore.searchSimilar(embedding, threshold, MAX_DUPLICATE_MATCHES, { ...scope, kind: 'conversation' });
+
+    for (const result of results) {
+      // An answer being re-saved is never its own duplicate
+      if (excludeMessageId && (result.messageId === excludeMessageId || result.id.startsWith(`${excludeMessageId}:`))) continue;
+      const parentId = memoryParentId(result);
+      const current = best.get(parentId);
+      if (!current || result.similarity > current.similarity) best.set(parentId, result);
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, MAX_DUPLICATE_MATCHES)
+    .map((result) => ({
+      id: result.id,
+      query: result.query,
+      snippet: result.response.length > DUPLICATE_SNIPPET_LENGTH
+        ? result.response.substring(0, DUPLICATE_SNIPPET_LENGTH).trimEnd() + '…'
+        : result.response,
+      similarity: result.similarity,
+      ...(result.messageId ? { messageId: result.messageId } : {}),
+    }));
+}
+
+function normalizeParagraph(paragraph: string): string {
+  return paragraph.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Every chunk of the answers or documents the matched vectors belong to, in chunk order,
+// so duplicates are merged and removed whole rather than one chunk at a time
+async function fetchWholeMemories(matchIds: string[], scope: VectorFilter): Promise<StoredVector[][]> {
+  const matched = (await vectorStore.fetchVectors(matchIds)).filter((memory) => matchesVectorFilter(memory, scope));
+
+  const groups: StoredVector[][] = [];
+  const seen = new Set<string>();
+  for (const memory of matched) {
+    const parentId = memoryParentId(memory);
+    if (seen.has(parentId)) continue;
+    seen.add(parentId);
+
+    if (parentId === memory.id || !memory.chunkCount || memory.chunkCount <= 1) {
+      groups.push([memory]);
+      continue;
+    }
+
+    const chunkIds = Array.from({ length: memory.chunkCount }, (_, i) => `${parentId}:${i}`);
+    const chunks = (await vectorStore.fetchVectors(chunkIds))
+      .filter((chunk) => matchesVectorFilter(chunk, scope))
+      .sort((a, b) => (a.chunkIndex ?? 0) - (b.chunkIndex ?? 0));
+    groups.push(chunks.some((chunk) => chunk.id === memory.id) ? chunks : [memory, ...chunks]);
+  }
+  return groups;
+}
+
+// Combine the new answer with what the duplicates say, keeping each paragraph once
+function mergeAnswerText(answer: string, existing: string[]): string {
+  const paragraphs = answer.split(/\n\s*\n/).map((paragraph) => paragraph.trim()).filter(Boolean);
+  const seen = new Set(paragraphs.map(normalizeParagraph));
+
+  for (const text of existing) {
+    for (const paragraph of text.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean)) {
+      const key = normalizeParagraph(paragraph);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      paragraphs.push(paragraph);
+    }
+  }
+
+  return paragraphs.join('\n\n');
+}
+
+// Save an answer after checking for near-duplicates. Without a resolution, nothing
+// is saved when duplicates exist and vectorIds is null so the caller can ask.
+export async function saveAnswerWithDedup(
+  answer: ChatMessage,
+  question: ChatMessage,
+  userId: string,
+  resolution?: DuplicateResolution,
+  threshold: number = getDuplicateThreshold()
+): Promise<{ vectorIds: string[] | null; duplicateCheck: DuplicateCheck }> {
+  try {
+    const scope = getMemoryScope(userId);
+    const embedded = await embedChunks(answer.content);
+    const matches = await findDuplicateMemories(embedded, scope, threshold, answer.id);
+
+    if (matches.length === 0) {
+      return { vectorIds: await saveAnswerToMemory(answer, question, userId, embedded), duplicateCheck: { status: 'unique', matches } };
+    }
+    if (!resolution) {
+      console.log(`🔁 Answer ${answer.id} has ${matches.length} near-duplicate(s) in memory`);
+      return { vectorIds: null, duplicateCheck: { status: 'found', matches } };
+    }
+
+    if (resolution === 'keep_both') {
+      return { vectorIds: await saveAnswerToMemory(answer, question, userId, embedded), duplicateCheck: { status: 'kept_both', matches } };
+    }
+
+    // Merge folds the duplicates' full text into the new answer before they are replaced
+    const duplicates = await fetchWholeMemories(matches.map((match) => match.id), scope);
+    let vectorIds: string[];
+    if (resolution === 'merge') {
+      const existing = duplicates.map((chunks) => chunks.map((chunk) => chunk.response).join('\n\n'));
+      vectorIds = await saveAnswerToMemory({ ...answer, content: mergeAnswerText(answer.content, existing) }, question, userId);
+    } else {
+      vectorIds = await saveAnswerToMemory(answer, question, userId, embedded);
+    }
+    await deleteMemories(duplicates.flat().map((memory) => memory.id), scope);
+    console.log(`🔁 ${resolution === 'merge' ? 'Merged' : 'Replaced'} ${matches.length} near-duplicate(s) with answer ${answer.id}`);
+
+    return { vectorIds, duplicateCheck: { status: resolution === 'merge' ? 'merged' : 'replaced', matches } };
+  } catch (error) {
+    console.error('Error saving answer with duplicate check:', error);
+    throw error;
+  }
+}
@@ -1,136 +1,208 @@
-import OpenAI from "openai";
-import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { getChatProvider, getEmbeddingProvider, getLLMConfig, type ChatTurn } from "./llm";
+import type { MessageSource } from "../../shared/schema";
 
 export interface VectorMemoryContext {
+  id: string;
   query: string;
   response: string;
   similarity: number;
   timestamp: string;
+  documentId?: string;
+  documentName?: string;
+  // Found (also) by keyword search rather than by embedding similarity alone
+  keywordMatch?: boolean;
 }
-import dotenv from 'dotenv';
-dotenv.config();
 
 // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key"
-});
+// The provider (OpenAI, OpenAI-compatible endpoint or mock) is chosen in settings - see ./llm
 
 // No hardcoded prompts - everything comes from database
 
+// Long answers from slower models can take a while; the request is aborted after this
+const CHAT_RESPONSE_TIMEOUT = 120000;
+
 export interface ChatResponse {
   content: string;
-  sources: string[];
+  sources: MessageSource[];
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  model?: string;
+  maxTokens?: number;
+  // Earlier turns of the conversation, oldest first
+  history?: ChatTurn[];
+}
+
+// Validate options and build the prompt turns from system prompt, vector memory,
+// conversation history and query
+function buildChatInput(
+  query: string,
+  vectorMemoryContext: VectorMemoryContext[],
+  options: ChatOptions,
+  settings?: Record<string, string>
+): { messages: ChatTurn[]; model: string; maxTokens: number; temperature: number } {
+  const { temperature, model, maxTokens, history = [] } = options;
+  
+  // Fast validation with early returns
+  if (temperature === undefined) throw new Error("Temperature parameter is required");
+  if (!model) throw new Error("Model parameter is required");
+  if (!maxTokens) throw new Error("MaxTokens parameter is required");
+  if (!settings?.systemPrompt) throw new Error("System prompt not configured in database");
+  
+  // Build message array with vector memory context
+  const messages: ChatTurn[] = [
+    {
+      role: "system",
+      content: settings.systemPrompt
+    }
+  ];
+
+  // Add vector memory context as numbered sources the model can cite.
+  // Retrieval has already trimmed it to the configured pair limit and token budget.
+  if (vectorMemoryContext.length > 0) {
+    messages.push({
+      role: "system",
+      content: formatContextForCitation(vectorMemoryContext)
+    });
+
+    console.log(`📚 Added ${vectorMemoryContext.length} numbered sources from vector memory (similarities: ${vectorMemoryContext.map(m => m.similarity.toFixed(3)).join(', ')})`);
+  }
+
+  // Replay recent turns as real user/assistant messages
+  if (history.length > 0) {
+    messages.push(...history);
+    console.log(`💬 Added ${history.length} previous messages from the conversation`);
+  }
+
+  // Add current user query
+  messages.push({
+    role: "user",
+    content: query
+  });
+
+  return { messages, model, maxTokens, temperature };
+}
+
+const SNIPPET_LENGTH = 300;
+
+export function formatContextForCitation(sources: VectorMemoryContext[]): string {
+  const blocks = sources.map((source, i) => source.documentName
+    ? `[${i + 1}] Document "${source.documentName}":\n${source.response}`
+    : `[${i + 1}] Previous conversation:\nUser: ${source.query}\nAssistant: ${source.response}`
+  );
+
+  return "The following sources were retrieved from memory and may help answer the next message. " +
+    "When you use information from a source, cite it inline with its number in square brackets, e.g. [1] or [1][3]. " +
+    "Only cite sources you actually used, and ignore sources that are not relevant.\n\n" +
+    blocks.join("\n\n");
+}
+
+function truncate(text: string, length: number): string {
+  const trimmed = text.trim();
+  return trimmed.length > length ? trimmed.substring(0, length).trimEnd() + "…" : trimmed;
+}
+
+// Describe the sources given to the model, numbered the same way as in the prompt
+export function describeSources(vectorMemoryContext: VectorMemoryContext[]): MessageSource[] {
+  return vectorMemoryContext.map((source, i) => ({
+    index: i + 1,
+    id: source.id,
+    title: truncate(source.documentName || source.query, 100),
+    snippet: truncate(source.response, SNIPPET_LENGTH),
+    similarity: source.similarity,
+    timestamp: source.timestamp,
+    ...(source.documentId ? { documentId: source.documentId, documentName: source.documentName } : {}),
+    ...(source.keywordMatch ? { keywordMatch: true } : {}),
+  }));
 }
 
 export async function generateChatResponse(
   query: string, 
   vectorMemoryContext: VectorMemoryContext[] = [],
-  options: { temperature?: number; model?: string; maxTokens?: number } = {},
+  options: ChatOptions = {},
   settings?: Record<string, string>
 ): Promise<ChatResponse> {
   const startTime = Date.now();
   
   try {
-    const { temperature, model, maxTokens } = options;
-    
-    // Fast validation with early returns
-    if (temperature === undefined) throw new Error("Temperature parameter is required");
-    if (!model) throw new Error("Model parameter is required");
-    if (!maxTokens) throw new Error("MaxTokens parameter is required");
-    if (!settings?.systemPrompt) throw new Error("System prompt not configured in database");
-    
-    // Build message array with vector memory context for optimal Response API usage
-    const messages: ChatCompletionMessageParam[] = [
-      {
-        role: "system",
-        content: settings.systemPrompt
-      }
-    ];
-
-    // Add vector memory context as proper user/assistant message pairs
-    if (vectorMemoryContext.length > 0) {
-      // Limit context to prevent token overflow - use top 3 most relevant
-      const contextLimit = Math.min(vectorMemoryContext.length, 3);
-      
-      for (let i = 0; i < contextLimit; i++) {
-        const memory = vectorMemoryContext[i];
-        messages.push(
-          {
-            role: "user",
-            content: memory.query
-          },
-          {
-            role: "assistant", 
-            content: memory.response
-          }
-        );
-      }
-      
-      console.log(`📚 Added ${contextLimit} conversation pairs from vector memory (similarities: ${vectorMemoryContext.slice(0, contextLimit).map(m => m.similarity.toFixed(3)).join(', ')})`);
-    }
-
-    // Add current user query
-    messages.push({
-      role: "user",
-      content: query
-    });
+    const request = buildChatInput(query, vectorMemoryContext, options, settings);
+    const provider = getChatProvider(getLLMConfig(settings));
 
-    // For Response API, we'll convert messages to input format
-    let input = messages.map(msg => {
-      if (msg.role === 'system') return msg.content;
-      if (msg.role === 'user') return `User: ${msg.content}`;
-      if (msg.role === 'assistant') return `Assistant: ${msg.content}`;
-      return msg.content;
-    }).join('\n\n') + '\n\nAssistant:';
-
-    // Optimized API call with timeout
-    const response = await Promise.race([
-      openai.responses.create({
-        model,
-        input,
-        max_output_tokens: maxTokens,
-        stream: false,
-      }),
-      new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('OpenAI API timeout')), 15000)
-      )
-    ]) as any;
+    // Abort the request itself on timeout so the provider stops generating
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), CHAT_RESPONSE_TIMEOUT);
+    const response = await provider.complete({ ...request, signal: controller.signal })
+      .catch((error) => {
+        throw controller.signal.aborted ? new Error(`${provider.name} API timeout`) : error;
+      })
+      .finally(() => clearTimeout(timer));
 
     const duration = Date.now() - startTime;
-    console.log(`OpenAI response generated in ${duration}ms`);
+    console.log(`${provider.name} response generated in ${duration}ms`);
 
     return {
-      content: response.output_text || "",
-      sources: vectorMemoryContext.length > 0 ? 
-        [`Vector Memory (${vectorMemoryContext.length} conversations)`] : [],
+      content: response.content,
+      sources: describeSources(vectorMemoryContext),
     };
   } catch (error) {
     const duration = Date.now() - startTime;
-    console.error(`OpenAI API error after ${duration}ms:`, error);
+    console.error(`LLM API error after ${duration}ms:`, error);
     throw new Error("Failed to generate response: " + (error as Error).message);
   }
 }
 
-export async function generateEmbedding(text: string): Promise<number[]> {
+// Stream the response token by token. Aborting the signal stops generation and
+// resolves with the text produced so far.
+export async function streamChatResponse(
+  query: string,
+  vectorMemoryContext: VectorMemoryContext[] = [],
+  options: ChatOptions = {},
+  settings: Record<string, string> | undefined,
+  handlers: { onDelta: (delta: string) => void; signal?: AbortSignal }
+): Promise<ChatResponse & { aborted: boolean }> {
+  const startTime = Date.now();
+  let content = "";
+
   try {
-    const response = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: text,
+    const request = buildChatInput(query, vectorMemoryContext, options, settings);
+    const provider = getChatProvider(getLLMConfig(settings));
+
+    await provider.stream({ ...request, signal: handlers.signal }, (delta) => {
+      content += delta;
+      handlers.onDelta(delta);
     });
-    
-    return response.data[0].embedding;
+
+    const duration = Date.now() - startTime;
+    console.log(`${provider.name} response streamed in ${duration}ms`);
+
+    return { content, sources: describeSources(vectorMemoryContext), aborted: false };
+  } catch (error) {
+    if (handlers.signal?.aborted) {
+      console.log(`LLM stream cancelled after ${Date.now() - startTime}ms`);
+      return { content, sources: describeSources(vectorMemoryContext), aborted: true };
+    }
+
+    const duration = Date.now() - startTime;
+    console.error(`LLM streaming error after ${duration}ms:`, error);
+    throw new Error("Failed to generate response: " + (error as Error).message);
+  }
+}
+
+export async function generateEmbedding(text: string): Promise<number[]> {
+  try {
+    return (await getEmbeddingProvider().embed(text)).embedding;
   } catch (error) {
-    console.error("OpenAI embedding error:", error);
+    console.error("Embedding error:", error);
     throw new Error("Failed to generate embedding: " + (error as Error).message);
   }
 }
 
 export async function checkOpenAIConnection(): Promise<boolean> {
   try {
-    await openai.models.list();
-    return true;
+    return await getChatProvider().checkConnection();
   } catch (error) {
-    console.error("OpenAI connection failed:", error);
+    console.error("LLM provider unavailable:", error);
     return false;
   }
 }
@@ -0,0 +1,168 @@
+import { count, desc, eq, getTableColumns, lt } from 'drizzle-orm';
+import { db, getAllSettingsFromCache, setSetting } from './database';
+import {
+  promptVersions,
+  users,
+  type PromptDiff,
+  type PromptDiffLine,
+  type PromptVersion,
+} from '../../shared/schema';
+
+export const MAX_PROMPT_NOTE_LENGTH = 500;
+const MAX_LISTED_VERSIONS = 100;
+// Above this many line pairs the diff falls back to replacing the whole prompt
+const MAX_DIFF_CELLS = 1_000_000;
+
+const versionColumns = { ...getTableColumns(promptVersions), authorName: users.username };
+
+function selectVersions() {
+  return db.select(versionColumns)
+    .from(promptVersions)
+    .leftJoin(users, eq(promptVersions.authorId, users.id));
+}
+
+// Returns an error message, or null when the note can be stored
+export function validatePromptNote(note: unknown): string | null {
+  if (note === undefined || note === null) return null;
+  if (typeof note !== 'string' || note.length > MAX_PROMPT_NOTE_LENGTH) {
+    return `Prompt note must be text of at most ${MAX_PROMPT_NOTE_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Prompts set before version history existed become the first version, so the
+// first recorded change can still be rolled back
+export async function ensurePromptHistory(settings = getAllSettingsFromCache()): Promise<void> {
+  try {
+    const [{ existing }] = await db.select({ existing: count() }).from(promptVersions);
+    if (existing > 0 || !settings.systemPrompt) return;
+
+    await db.insert(promptVersions).values({
+      content: settings.systemPrompt,
+      note: 'Prompt in use before version history',
+    });
+  } catch (error) {
+    console.error('Error ensuring prompt history:', error);
+    throw error;
+  }
+}
+
+// Newest first
+export async function listPromptVersions(limit = MAX_LISTED_VERSIONS): Promise<PromptVersion[]> {
+  try {
+    return await selectVersions().orderBy(desc(promptVersions.id)).limit(limit);
+  } catch (error) {
+    console.error('Error listing prompt versions:', error);
+    throw error;
+  }
+}
+
+export async function getPromptVersion(id: number): Promise<PromptVersion | null> {
+  try {
+    const result = await selectVersions().where(eq(promptVersions.id, id)).limit(1);
+    return result[0] || null;
+  } catch (error) {
+    console.error('Error getting prompt version:', error);
+    throw error;
+  }
+}
+
+// Save the shared system prompt and record it as a new version. Returns null without
+// recording anything when the prompt is unchanged.
+export async function updateSystemPrompt(
+  content: string,
+  authorId: string,
+  note: string | null = null,
+  restoredFrom: number | null = null
+): Promise<PromptVersion | null> {
+  try {
+    if (content === getAllSettingsFromCache().systemPrompt) return null;
+
+    await ensurePromptHistory();
+    await setSetting('systemPrompt', content);
+    const [created] = await db.insert(promptVersions)
+      .values({ content, authorId, note: note?.trim() || null, restoredFrom })
+      .returning({ id: promptVersions.id });
+
+    console.log(`📝 System prompt changed (version ${created.id}${restoredFrom ? `, restored from ${restoredFrom}` : ''})`);
+    return getPromptVersion(created.id);
+  } catch (error) {
+    console.error('Error updating system prompt:', error);
+    throw error;
+  }
+}
+
+// Make an earlier version the current prompt again, as a new version
+export async function restorePromptVersion(
+  version: PromptVersion,
+  authorId: string,
+  note: string | null = null
+): Promise<PromptVersion | null> {
+  return updateSystemPrompt(version.content, authorId, note?.trim() || `Rolled back to version ${version.id}`, version.id);
+}
+
+// Diff a version against another one, by default the version before it
+export async function diffPromptVersions(id: number, againstId?: number): Promise<PromptDiff | null> {
+  try {
+    const to = await getPromptVersion(id);
+    if (!to) return null;
+
+    let from: PromptVersion | null;
+    if (againstId !== undefined) {
+      from = await getPromptVersion(againstId);
+      if (!from) return null;
+    } else {
+      const previous = await selectVersions()
+        .where(lt(promptVersions.id, id))
+        .orderBy(desc(promptVersions.id))
+        .limit(1);
+      from = previous[0] || null;
+    }
+
+    return { from, to, lines: diffLines(from?.content ?? '', to.content) };
+  } catch (error) {
+    console.error('Error diffing prompt versions:', error);
+    throw error;
+  }
+}
+
+// Line diff by longest common subsequence; prompts are short enough for the full table
+export function diffLines(before: string, after: string): PromptDiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text): PromptDiffLine => ({ type: 'removed', text })),
+      ...b.map((text): PromptDiffLine => ({ type: 'added', text })),
+    ];
+  }
+
+  // common[i][j] is the LCS length of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: PromptDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
@@ -0,0 +1,68 @@
+import { getAllSettingsFromCache } from './database';
+import { getChatProvider, getLLMConfig } from './llm';
+import { getRetrievalConfig, type RetrievalConfig } from './retrieval';
+import type { HistoryMessage } from './history';
+
+const REWRITE_TIMEOUT = 10000;
+const HISTORY_MESSAGE_LENGTH = 1000;
+const MAX_REWRITE_LENGTH = 500;
+
+export interface SearchQuery {
+  query: string;
+  rewritten: boolean;
+}
+
+// Condense a follow-up ("what about the second one?") into a standalone search query
+// using the last few messages. Falls back to the original text whenever rewriting
+// is off, there is no history or the model reply is unusable.
+export async function rewriteQuery(
+  content: string,
+  history: HistoryMessage[],
+  settings: Record<string, string> = getAllSettingsFromCache(),
+  config: RetrievalConfig = getRetrievalConfig(settings)
+): Promise<SearchQuery> {
+  const original = { query: content, rewritten: false };
+  const recent = history.slice(-config.queryRewriteTurns);
+  if (!config.queryRewrite || recent.length === 0) return original;
+
+  const startTime = Date.now();
+  try {
+    const provider = getChatProvider(getLLMConfig(settings));
+    const transcript = recent
+      .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content.substring(0, HISTORY_MESSAGE_LENGTH)}`)
+      .join('\n\n');
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const response = await Promise.race([
+      provider.complete({
+        model: settings.model,
+        maxTokens: 100,
+        temperature: 0,
+        messages: [
+          {
+            role: 'system',
+            content: 'Rewrite the follow-up message into a standalone search query that can be understood without the conversation. ' +
+              'Resolve pronouns and references like "it" or "the second one" using the conversation. ' +
+              'Keep exact names, codes and identifiers. If the message is already standalone, return it unchanged. ' +
+              'Reply with the query only.',
+          },
+          { role: 'user', content: `Conversation:\n${transcript}\n\nFollow-up message: ${content}` },
+        ],
+      }),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${provider.name} query rewrite timeout`)), REWRITE_TIMEOUT);
+      }),
+    ]).finally(() => clearTimeout(timer));
+
+    // Models sometimes label or quote the query; keep the first line only
+    const firstLine = response.content.trim().split('\n')[0] ?? '';
+    const query = firstLine.replace(/^(search )?query:\s*/i, '').trim().replace(/^["']|["']$/g, '');
+    if (!query || query.length > MAX_REWRITE_LENGTH) return original;
+
+    console.log(`✏️ Rewrote search query in ${Date.now() - startTime}ms: "${content.substring(0, 50)}" → "${query.substring(0, 80)}"`);
+    return { query, rewritten: query !== content.trim() };
+  } catch (error) {
+    console.error('Query rewrite failed - searching with the original message:', error);
+    return original;
+  }
+}
@@ -0,0 +1,44 @@
+import { getChatProvider, getLLMConfig } from "../llm";
+import { getAllSettingsFromCache } from "../database";
+import { LexicalOverlapReranker } from "./lexical";
+import { LLMReranker } from "./llm";
+import type { RerankCandidate, Reranker, RerankerType } from "./types";
+
+export * from "./types";
+
+export function getReranker(type: RerankerType, settings: Record<string, string> = getAllSettingsFromCache()): Reranker | null {
+  switch (type) {
+    case 'none':
+      return null;
+    case 'lexical':
+      return new LexicalOverlapReranker();
+    case 'llm':
+      return new LLMReranker(getChatProvider(getLLMConfig(settings)), settings.model);
+  }
+}
+
+// Reorder candidates by reranker score (ties keep retrieval order) and keep the best.
+// Rank changes are logged so retrieval quality can be debugged.
+export async function rerank<T extends RerankCandidate>(
+  reranker: Reranker,
+  query: string,
+  candidates: T[],
+  keep: number
+): Promise<T[]> {
+  if (candidates.length === 0) return [];
+
+  const startTime = Date.now();
+  const scores = await reranker.score(query, candidates);
+  const ranked = candidates
+    .map((candidate, originalRank) => ({ candidate, originalRank, score: scores[originalRank] ?? 0 }))
+    .sort((a, b) => b.score - a.score || a.originalRank - b.originalRank);
+
+  const changes = ranked
+    .slice(0, keep)
+    .map(({ candidate, originalRank, score }, rank) =>
+      `#${rank + 1} ${candidate.id} (was #${originalRank + 1}, score ${score.toFixed(2)})`
+    );
+  console.log(`🔀 ${reranker.name} rerank kept ${Math.min(keep, ranked.length)} of ${candidates.length} in ${Date.now() - startTime}ms: ${changes.join(', ')}`);
+
+  return ranked.slice(0, keep).map(({ candidate }) => candidate);
+}
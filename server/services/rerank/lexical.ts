@@ -0,0 +1,31 @@
+import { tokenize } from "../vector-store";
+import type { RerankCandidate, Reranker } from "./types";
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why',
+  'with', 'you', 'your',
+]);
+
+function contentTerms(text: string): Set<string> {
+  return new Set(tokenize(text).filter((token) => !STOPWORDS.has(token)));
+}
+
+// Share of the query's content words found in the candidate - cheap and works offline
+export class LexicalOverlapReranker implements Reranker {
+  readonly name = 'Lexical overlap';
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const queryTerms = contentTerms(query);
+    if (queryTerms.size === 0) return candidates.map(() => 0);
+
+    return candidates.map((candidate) => {
+      const terms = contentTerms([candidate.documentName ?? '', candidate.query, candidate.response].join(' '));
+      let matched = 0;
+      queryTerms.forEach((term) => {
+        if (terms.has(term)) matched++;
+      });
+      return matched / queryTerms.size;
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import type { ChatProvider } from "../llm";
+import { LexicalOverlapReranker } from "./lexical";
+import type { RerankCandidate, Reranker } from "./types";
+
+const CANDIDATE_PREVIEW_LENGTH = 600;
+const LLM_RERANK_TIMEOUT = 15000;
+
+// Uses the chat model as a cross-encoder: it reads the query and every candidate
+// together and grades each one. Falls back to lexical overlap if the reply is unusable.
+export class LLMReranker implements Reranker {
+  readonly name = 'LLM';
+  private readonly fallback = new LexicalOverlapReranker();
+
+  constructor(private readonly provider: ChatProvider, private readonly model: string) {}
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const passages = candidates.map((candidate, i) => {
+      const text = candidate.documentName
+        ? `Document "${candidate.documentName}": ${candidate.response}`
+        : `Q: ${candidate.query}\nA: ${candidate.response}`;
+      return `[${i + 1}] ${text.substring(0, CANDIDATE_PREVIEW_LENGTH)}`;
+    });
+
+    try {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const response = await Promise.race([
+        this.provider.complete({
+          model: this.model,
+          maxTokens: 20 + candidates.length * 4,
+          temperature: 0,
+          messages: [
+            {
+              role: 'system',
+              content: 'Grade how useful each numbered passage is for answering the query, from 0 (irrelevant) to 10 (directly answers it). ' +
+                'Reply with JSON only: {"scores": [<one number per passage, in order>]}.',
+            },
+            { role: 'user', content: `Query: ${query}\n\nPassages:\n${passages.join('\n\n')}` },
+          ],
+        }),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`${this.provider.name} rerank timeout`)), LLM_RERANK_TIMEOUT);
+        }),
+      ]).finally(() => clearTimeout(timer));
+
+      const json = response.content.match(/\{[\s\S]*\}/)?.[0];
+      const scores = json ? JSON.parse(json).scores : null;
+      if (Array.isArray(scores) && scores.length === candidates.length && scores.every((score) => typeof score === 'number')) {
+        return scores;
+      }
+      console.log('⚠️ LLM reranker returned an unusable reply - using lexical overlap');
+    } catch (error) {
+      console.error('LLM rerank failed - using lexical overlap:', error);
+    }
+
+    return this.fallback.score(query, candidates);
+  }
+}
@@ -0,0 +1,17 @@
+export interface RerankCandidate {
+  id: string;
+  query: string;
+  response: string;
+  documentName?: string;
+}
+
+// Scores how relevant each candidate is to the query; higher is better.
+// Scores only need to be comparable within one call.
+export interface Reranker {
+  readonly name: string;
+  score(query: string, candidates: RerankCandidate[]): Promise<number[]>;
+}
+
+export type RerankerType = 'none' | 'lexical' | 'llm';
+
+export const RERANKER_TYPES: RerankerType[] = ['none', 'lexical', 'llm'];
@@ -0,0 +1,265 @@
+import { getAllSettingsFromCache } from './database';
+import { generateEmbedding, type VectorMemoryContext } from './openai';
+import { vectorStore, type KeywordSearchResult, type VectorFilter, type VectorSearchResult } from './vector-store';
+import { getReranker, rerank, RERANKER_TYPES, type RerankerType } from './rerank';
+
+export const THRESHOLD_STRATEGIES = ['adaptive', 'fixed'] as const;
+export type ThresholdStrategy = typeof THRESHOLD_STRATEGIES[number];
+
+export interface RetrievalConfig {
+  thresholdStrategy: ThresholdStrategy;
+  similarityThreshold: number;
+  topK: number;
+  maxContextPairs: number;
+  contextTokenBudget: number;
+  // Share of the fused ranking given to keyword (BM25) matches: 0 is vector only, 1 keyword only
+  keywordWeight: number;
+  // With a reranker, rerankCandidates results are fetched and the best topK kept
+  reranker: RerankerType;
+  rerankCandidates: number;
+  // Rewrite follow-up questions into standalone search queries using the last few messages
+  queryRewrite: boolean;
+  queryRewriteTurns: number;
+}
+
+export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
+  thresholdStrategy: 'adaptive',
+  similarityThreshold: 0.25,
+  topK: 5,
+  maxContextPairs: 3,
+  contextTokenBudget: 4096,
+  keywordWeight: 0,
+  reranker: 'none',
+  rerankCandidates: 20,
+  queryRewrite: false,
+  queryRewriteTurns: 6,
+};
+
+export const MAX_TOP_K = 50;
+export const MAX_CONTEXT_PAIRS = 20;
+export const MAX_RERANK_CANDIDATES = 50;
+export const MAX_QUERY_REWRITE_TURNS = 20;
+export const MIN_CONTEXT_TOKEN_BUDGET = 256;
+export const MAX_CONTEXT_TOKEN_BUDGET = 32768;
+
+// Standard reciprocal rank fusion constant; damps the advantage of the very top ranks
+const RRF_K = 60;
+
+// Short queries embed poorly, so the adaptive strategy relaxes the threshold for them
+const SHORT_QUERY_WORDS = 3;
+const SHORT_QUERY_RELAXATION = 0.1;
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value === undefined || value === '' || Number.isNaN(parsed) ? fallback : parsed;
+}
+
+function resetField<K extends keyof RetrievalConfig>(config: RetrievalConfig, field: K): void {
+  config[field] = DEFAULT_RETRIEVAL_CONFIG[field];
+}
+
+// One check per field, run in this order; rerankCandidates is checked after the
+// topK and reranker it depends on
+const RETRIEVAL_FIELD_CHECKS: { [K in keyof RetrievalConfig]: (config: RetrievalConfig) => string | null } = {
+  thresholdStrategy: (config) => THRESHOLD_STRATEGIES.includes(config.thresholdStrategy)
+    ? null
+    : `Threshold strategy must be one of: ${THRESHOLD_STRATEGIES.join(', ')}`,
+  similarityThreshold: (config) => typeof config.similarityThreshold === 'number' && config.similarityThreshold >= 0 && config.similarityThreshold <= 1
+    ? null
+    : "Similarity threshold must be a number between 0 and 1",
+  topK: (config) => Number.isInteger(config.topK) && config.topK >= 1 && config.topK <= MAX_TOP_K
+    ? null
+    : `Top K must be a whole number between 1 and ${MAX_TOP_K}`,
+  maxContextPairs: (config) => Number.isInteger(config.maxContextPairs) && config.maxContextPairs >= 1 && config.maxContextPairs <= MAX_CONTEXT_PAIRS
+    ? null
+    : `Max context pairs must be a whole number between 1 and ${MAX_CONTEXT_PAIRS}`,
+  contextTokenBudget: (config) => Number.isInteger(config.contextTokenBudget) && config.contextTokenBudget >= MIN_CONTEXT_TOKEN_BUDGET && config.contextTokenBudget <= MAX_CONTEXT_TOKEN_BUDGET
+    ? null
+    : `Context token budget must be a whole number between ${MIN_CONTEXT_TOKEN_BUDGET} and ${MAX_CONTEXT_TOKEN_BUDGET}`,
+  keywordWeight: (config) => typeof config.keywordWeight === 'number' && config.keywordWeight >= 0 && config.keywordWeight <= 1
+    ? null
+    : "Keyword weight must be a number between 0 and 1",
+  reranker: (config) => RERANKER_TYPES.includes(config.reranker)
+    ? null
+    : `Reranker must be one of: ${RERANKER_TYPES.join(', ')}`,
+  // Only compared with top K when a reranker will over-fetch with it
+  rerankCandidates: (config) => {
+    const min = config.reranker === 'none' ? 1 : config.topK;
+    return Number.isInteger(config.rerankCandidates) && config.rerankCandidates >= min && config.rerankCandidates <= MAX_RERANK_CANDIDATES
+      ? null
+      : `Rerank candidates must be a whole number between ${config.reranker === 'none' ? 1 : 'top K'} and ${MAX_RERANK_CANDIDATES}`;
+  },
+  queryRewrite: (config) => typeof config.queryRewrite === 'boolean'
+    ? null
+    : "Query rewrite must be true or false",
+  queryRewriteTurns: (config) => Number.isInteger(config.queryRewriteTurns) && config.queryRewriteTurns >= 1 && config.queryRewriteTurns <= MAX_QUERY_REWRITE_TURNS
+    ? null
+    : `Query rewrite turns must be a whole number between 1 and ${MAX_QUERY_REWRITE_TURNS}`,
+};
+
+// Retrieval configuration lives in the settings table so the sidebar controls apply server-side.
+// A stored value that fails validation falls back to its default on its own, so one bad
+// setting doesn't reset the rest.
+export function getRetrievalConfig(settings: Record<string, string> = getAllSettingsFromCache()): RetrievalConfig {
+  const config: RetrievalConfig = {
+    thresholdStrategy: (settings.thresholdStrategy || DEFAULT_RETRIEVAL_CONFIG.thresholdStrategy) as ThresholdStrategy,
+    similarityThreshold: parseNumber(settings.similarityThreshold, DEFAULT_RETRIEVAL_CONFIG.similarityThreshold),
+    topK: parseNumber(settings.topK, DEFAULT_RETRIEVAL_CONFIG.topK),
+    maxContextPairs: parseNumber(settings.maxContextPairs, DEFAULT_RETRIEVAL_CONFIG.maxContextPairs),
+    contextTokenBudget: parseNumber(settings.contextTokenBudget, DEFAULT_RETRIEVAL_CONFIG.contextTokenBudget),
+    keywordWeight: parseNumber(settings.keywordWeight, DEFAULT_RETRIEVAL_CONFIG.keywordWeight),
+    reranker: (settings.reranker || DEFAULT_RETRIEVAL_CONFIG.reranker) as RerankerType,
+    rerankCandidates: parseNumber(settings.rerankCandidates, DEFAULT_RETRIEVAL_CONFIG.rerankCandidates),
+    queryRewrite: settings.queryRewrite === undefined ? DEFAULT_RETRIEVAL_CONFIG.queryRewrite : settings.queryRewrite === 'true',
+    queryRewriteTurns: parseNumber(settings.queryRewriteTurns, DEFAULT_RETRIEVAL_CONFIG.queryRewriteTurns),
+  };
+
+  for (const field of Object.keys(RETRIEVAL_FIELD_CHECKS) as Array<keyof RetrievalConfig>) {
+    const error = RETRIEVAL_FIELD_CHECKS[field](config);
+    if (!error) continue;
+    console.warn(`⚠️ Ignoring stored ${field} setting "${settings[field]}": ${error}`);
+    resetField(config, field);
+  }
+  // The default candidate count can be below a valid stored top K
+  if (config.reranker !== 'none' && config.rerankCandidates < config.topK) {
+    config.rerankCandidates = config.topK;
+  }
+  return config;
+}
+
+// Returns an error message, or null when the config is usable
+export function validateRetrievalConfig(config: RetrievalConfig): string | null {
+  for (const check of Object.values(RETRIEVAL_FIELD_CHECKS)) {
+    const error = check(config);
+    if (error) return error;
+  }
+  return null;
+}
+
+export function resolveThreshold(query: string, config: RetrievalConfig): number {
+  if (config.thresholdStrategy === 'fixed') return config.similarityThreshold;
+
+  const isShortQuery = query.trim().split(/\s+/).length <= SHORT_QUERY_WORDS;
+  return isShortQuery
+    ? Math.max(0, Number((config.similarityThreshold - SHORT_QUERY_RELAXATION).toFixed(2)))
+    : config.similarityThreshold;
+}
+
+// Rough estimate (~4 characters per token for English text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Merge vector and keyword rankings with weighted reciprocal rank fusion.
+// Keyword-only matches have no cosine score, so their similarity is 0.
+export function fuseRankings(
+  vectorResults: VectorSearchResult[],
+  keywordResults: KeywordSearchResult[],
+  keywordWeight: number
+): Array<VectorSearchResult & { keywordMatch: boolean }> {
+  const fused = new Map<string, { result: VectorSearchResult & { keywordMatch: boolean }; score: number }>();
+
+  vectorResults.forEach((result, rank) => {
+    fused.set(result.id, {
+      result: { ...result, keywordMatch: false },
+      score: (1 - keywordWeight) / (RRF_K + rank + 1),
+    });
+  });
+
+  keywordResults.forEach(({ score: _bm25, ...result }, rank) => {
+    const score = keywordWeight / (RRF_K + rank + 1);
+    const existing = fused.get(result.id);
+    if (existing) {
+      existing.result.keywordMatch = true;
+      existing.score += score;
+    } else {
+      fused.set(result.id, { result: { ...result, similarity: 0, keywordMatch: true }, score });
+    }
+  });
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .map(({ result }) => result);
+}
+
+// Keep the best matches that fit both the pair limit and the token budget
+export function fitContextToBudget(context: VectorMemoryContext[], config: RetrievalConfig): VectorMemoryContext[] {
+  const selected: VectorMemoryContext[] = [];
+  let usedTokens = 0;
+
+  for (const item of context) {
+    if (selected.length >= config.maxContextPairs) break;
+
+    const tokens = estimateTokens(item.query) + estimateTokens(item.response);
+    if (usedTokens + tokens > config.contextTokenBudget) continue;
+
+    selected.push(item);
+    usedTokens += tokens;
+  }
+
+  return selected;
+}
+
+// Enhanced vector database semantic search for context, limited to the memories the scope covers
+export async function retrieveMemoryContext(
+  content: string,
+  scope: VectorFilter,
+  settings: Record<string, string> = getAllSettingsFromCache()
+): Promise<VectorMemoryContext[]> {
+  const config = getRetrievalConfig(settings);
+  let vectorMemoryContext: VectorMemoryContext[] = [];
+  if (vectorStore.getConnectionStatus()) {
+    try {
+      console.log('🔍 Performing vector search for:', content.substring(0, 50) + '...');
+
+      const threshold = resolveThreshold(content, config);
+      console.log(`📏 Query length: ${content.trim().split(/\s+/).length} words, using ${config.thresholdStrategy} threshold: ${threshold}`);
+
+      // Over-fetch when a reranker will pick the best topK
+      const reranker = getReranker(config.reranker, settings);
+      const fetchLimit = reranker ? config.rerankCandidates : config.topK;
+
+      // Keyword-only retrieval needs no query embedding
+      let vectorResults: VectorSearchResult[] = [];
+      if (config.keywordWeight < 1) {
+        const queryEmbedding = await generateEmbedding(content);
+        console.log('📊 Generated embedding with', queryEmbedding.length, 'dimensions');
+        vectorResults = await vectorStore.searchSimilar(queryEmbedding, threshold, fetchLimit, scope);
+      }
+      const keywordResults = config.keywordWeight > 0
+        ? await vectorStore.keywordSearch(content, fetchLimit, scope)
+        : [];
+      console.log(`🎯 Vector search found ${vectorResults.length}, keyword search found ${keywordResults.length} (keyword weight ${config.keywordWeight})`);
+
+      const candidates = fuseRankings(vectorResults, keywordResults, config.keywordWeight).slice(0, fetchLimit);
+      const similarResults = reranker
+        ? await rerank(reranker, content, candidates, config.topK)
+        : candidates;
+
+      if (similarResults.length > 0) {
+        // Show similarity scores for debugging
+        console.log('📊 Similarity scores:', similarResults.map(r => `${r.similarity.toFixed(3)}`).join(', '));
+
+        vectorMemoryContext = fitContextToBudget(similarResults.map(result => ({
+          id: result.id,
+          query: result.query,
+          response: result.response,
+          similarity: result.similarity,
+          timestamp: result.timestamp,
+          documentId: result.documentId,
+          documentName: result.documentName,
+          keywordMatch: result.keywordMatch
+        })), config);
+        console.log(`✅ Using ${vectorMemoryContext.length} of ${similarResults.length} results as context (max ${config.maxContextPairs} pairs, ${config.contextTokenBudget} token budget)`);
+        console.log('📝 Context queries:', vectorMemoryContext.map(p => p.query.substring(0, 30) + '...'));
+      } else {
+        console.log('❌ No similar conversations found - proceeding without context');
+      }
+    } catch (error) {
+      console.error("❌ Vector search failed:", error);
+    }
+  } else {
+    console.log(`⚠️  ${vectorStore.displayName} vector database not connected - no semantic search`);
+  }
+  return vectorMemoryContext;
+}
@@ -0,0 +1,57 @@
+import session from 'express-session';
+import { eq, lt } from 'drizzle-orm';
+import { db } from './database';
+import { sessions } from '../../shared/schema';
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 15 * 60 * 1000;
+
+function expiryOf(data: session.SessionData): Date {
+  const expires = data.cookie?.expires;
+  return expires ? new Date(expires) : new Date(Date.now() + DEFAULT_TTL_MS);
+}
+
+// express-session store backed by the sessions table, so logins survive restarts
+export class PgSessionStore extends session.Store {
+  constructor() {
+    super();
+    // Expired rows are ignored on read and deleted periodically
+    setInterval(() => {
+      this.prune().catch((error) => console.error('Error pruning sessions:', error));
+    }, PRUNE_INTERVAL_MS).unref();
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+    db.select().from(sessions).where(eq(sessions.sid, sid)).limit(1)
+      .then(([row]) => callback(null, row && row.expire > new Date() ? row.sess as session.SessionData : null))
+      .catch((error) => callback(error));
+  }
+
+  set(sid: string, data: session.SessionData, callback?: (err?: any) => void): void {
+    const expire = expiryOf(data);
+    db.insert(sessions)
+      .values({ sid, sess: data, expire })
+      .onConflictDoUpdate({ target: sessions.sid, set: { sess: data, expire } })
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    db.delete(sessions).where(eq(sessions.sid, sid))
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  touch(sid: string, data: session.SessionData, callback?: () => void): void {
+    db.update(sessions).set({ expire: expiryOf(data) }).where(eq(sessions.sid, sid))
+      .then(() => callback?.())
+      .catch((error) => {
+        console.error('Error touching session:', error);
+        callback?.();
+      });
+  }
+
+  async prune(): Promise<void> {
+    await db.delete(sessions).where(lt(sessions.expire, new Date()));
+  }
+}
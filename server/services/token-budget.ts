@@ -0,0 +1,148 @@
+import { getAllSettingsFromCache } from './database';
+import { formatContextForCitation, type VectorMemoryContext } from './openai';
+import type { ChatTurn } from './llm';
+import type { TokenBreakdown } from '../../shared/schema';
+
+interface ModelProfile {
+  contextWindow: number;
+  charsPerToken: number;
+}
+
+// Context windows and average characters per token by model family. Models we
+// don't recognise (often small local ones) get a conservative window.
+const MODEL_PROFILES: Array<{ pattern: RegExp } & ModelProfile> = [
+  { pattern: /^gpt-5/, contextWindow: 400000, charsPerToken: 4 },
+  { pattern: /^gpt-4\.1/, contextWindow: 1047576, charsPerToken: 4 },
+  { pattern: /^gpt-4o/, contextWindow: 128000, charsPerToken: 4 },
+  { pattern: /^o[134]/, contextWindow: 200000, charsPerToken: 4 },
+  { pattern: /^gpt-4-turbo/, contextWindow: 128000, charsPerToken: 3.8 },
+  { pattern: /^gpt-4/, contextWindow: 8192, charsPerToken: 3.8 },
+  { pattern: /^gpt-3\.5/, contextWindow: 16385, charsPerToken: 3.8 },
+  { pattern: /llama|mistral|mixtral|qwen|gemma|phi/i, contextWindow: 8192, charsPerToken: 3.5 },
+];
+
+const DEFAULT_MODEL_PROFILE: ModelProfile = { contextWindow: 8192, charsPerToken: 3.5 };
+
+// Chat formats add a few tokens per message, plus a few to prime the reply
+const TOKENS_PER_MESSAGE = 4;
+const REPLY_PRIMING_TOKENS = 3;
+
+// A trimmed context item below this size isn't worth keeping
+const MIN_TRIMMED_TOKENS = 64;
+
+// The two newest history messages are kept until retrieved context is gone
+const PROTECTED_HISTORY_MESSAGES = 2;
+
+export function getModelProfile(model: string): ModelProfile {
+  const profile = MODEL_PROFILES.find(({ pattern }) => pattern.test(model));
+  return profile ? { contextWindow: profile.contextWindow, charsPerToken: profile.charsPerToken } : DEFAULT_MODEL_PROFILE;
+}
+
+// Approximate token count for a model. Whitespace-separated words are a floor,
+// which keeps code and non-English text from being undercounted.
+export function countTokens(text: string, model: string): number {
+  if (!text) return 0;
+  const { charsPerToken } = getModelProfile(model);
+  const words = (text.match(/\S+/g) || []).length;
+  return Math.max(Math.ceil(text.length / charsPerToken), words);
+}
+
+function countMessage(content: string, model: string): number {
+  return countTokens(content, model) + TOKENS_PER_MESSAGE;
+}
+
+// 0 means use the model's known context window
+export function getContextWindow(model: string, settings: Record<string, string> = getAllSettingsFromCache()): number {
+  const configured = parseInt(settings.contextWindow || '', 10);
+  return configured > 0 ? configured : getModelProfile(model).contextWindow;
+}
+
+export interface TokenBudgetInput {
+  model: string;
+  maxTokens: number;
+  systemPrompt: string;
+  query: string;
+  history: ChatTurn[];
+  context: VectorMemoryContext[];
+}
+
+export interface TokenBudgetResult {
+  history: ChatTurn[];
+  context: VectorMemoryContext[];
+  breakdown: TokenBreakdown;
+}
+
+function trimToTokens(text: string, tokens: number, model: string): string {
+  const { charsPerToken } = getModelProfile(model);
+  return text.substring(0, Math.max(0, Math.floor(tokens * charsPerToken) - 1)).trimEnd() + '…';
+}
+
+// Fit the prompt into the model's context window after reserving room for the
+// answer. The system prompt and query always stay; when the rest doesn't fit,
+// the lowest-value items go first: older history, then lower-ranked context,
+// then the newest history. The best context item is trimmed rather than dropped.
+export function allocateTokenBudget(
+  input: TokenBudgetInput,
+  settings: Record<string, string> = getAllSettingsFromCache()
+): TokenBudgetResult {
+  const { model, maxTokens } = input;
+  const contextWindow = getContextWindow(model, settings);
+
+  const systemPromptTokens = countMessage(input.systemPrompt, model);
+  const queryTokens = countMessage(input.query, model) + REPLY_PRIMING_TOKENS;
+  const available = Math.max(0, contextWindow - maxTokens - systemPromptTokens - queryTokens);
+
+  let history = [...input.history];
+  let context = [...input.context];
+  let trimmedContext = 0;
+
+  const historyTokens = () => history.reduce((sum, turn) => sum + countMessage(turn.content, model), 0);
+  const contextTokens = () => context.length > 0 ? countMessage(formatContextForCitation(context), model) : 0;
+
+  while (historyTokens() + contextTokens() > available) {
+    if (history.length > PROTECTED_HISTORY_MESSAGES) {
+      history = history.slice(1);
+    } else if (context.length > 1) {
+      context = context.slice(0, -1);
+    } else if (history.length > 0) {
+      history = history.slice(1);
+    } else if (context.length === 1 && trimmedContext === 0) {
+      // Trim the best source's text to whatever room is left
+      const overhead = contextTokens() - countTokens(context[0].response, model);
+      const room = available - overhead;
+      if (room < MIN_TRIMMED_TOKENS) {
+        context = [];
+      } else {
+        context = [{ ...context[0], response: trimToTokens(context[0].response, room, model) }];
+        trimmedContext = 1;
+      }
+    } else {
+      // The trimmed source still didn't fit, so it counts as dropped rather than trimmed
+      context = [];
+      trimmedContext = 0;
+    }
+  }
+
+  const breakdown: TokenBreakdown = {
+    model,
+    contextWindow,
+    systemPrompt: systemPromptTokens,
+    history: historyTokens(),
+    context: contextTokens(),
+    query: queryTokens,
+    reservedOutput: maxTokens,
+    total: systemPromptTokens + historyTokens() + contextTokens() + queryTokens + maxTokens,
+    droppedHistory: input.history.length - history.length,
+    droppedContext: input.context.length - context.length,
+    trimmedContext,
+  };
+
+  if (breakdown.droppedHistory > 0 || breakdown.droppedContext > 0 || trimmedContext > 0) {
+    console.log(`✂️ Token budget (${contextWindow} window, ${maxTokens} reserved): dropped ${breakdown.droppedHistory} history and ${breakdown.droppedContext} context items, trimmed ${trimmedContext}`);
+  }
+  if (contextWindow - maxTokens - systemPromptTokens - queryTokens < 0) {
+    console.warn(`⚠️ System prompt, query and reserved output (${systemPromptTokens + queryTokens + maxTokens} tokens) exceed the ${contextWindow} token context window`);
+  }
+
+  return { history, context, breakdown };
+}
@@ -0,0 +1,182 @@
+import { db, getAllSettingsFromCache } from './database';
+import { meterUsage, type MeteredCall } from './llm';
+import { countTokens } from './token-budget';
+import { tokenUsage, type DailyUsage, type UsageOperation, type UsageStats, type UsageSummary } from '../../shared/schema';
+import { and, eq, gte, sql } from 'drizzle-orm';
+
+// USD per million tokens. Embedding tokens are charged at the input price.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-ada-002': { input: 0.1, output: 0 },
+};
+
+export const DEFAULT_USAGE_DAYS = 30;
+export const MAX_USAGE_DAYS = 365;
+
+// The price table lives in the settings table as JSON so new models can be priced without a deploy
+export function getModelPrices(settings: Record<string, string> = getAllSettingsFromCache()): ModelPriceTable {
+  if (!settings.modelPrices) return DEFAULT_MODEL_PRICES;
+  try {
+    const prices = JSON.parse(settings.modelPrices);
+    return validateModelPrices(prices) ? DEFAULT_MODEL_PRICES : prices;
+  } catch {
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+// Returns an error message, or null when the price table is usable
+export function validateModelPrices(prices: unknown): string | null {
+  if (!prices || typeof prices !== 'object' || Array.isArray(prices)) {
+    return 'Model prices must be an object mapping model names to { input, output } prices';
+  }
+  for (const [model, price] of Object.entries(prices)) {
+    if (
+      !price || typeof price !== 'object' ||
+      typeof price.input !== 'number' || !(price.input >= 0) ||
+      typeof price.output !== 'number' || !(price.output >= 0)
+    ) {
+      return `Price for "${model}" must have non-negative numeric input and output prices per million tokens`;
+    }
+  }
+  return null;
+}
+
+// Exact match first, then the longest listed prefix so dated snapshots such as
+// gpt-4o-mini-2024-07-18 get their family's price. Unknown models cost nothing.
+export function findModelPrice(model: string, prices: ModelPriceTable): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+// Group metered calls into one row per model, counting tokens locally where the
+// provider didn't report them
+export function summarizeCalls(calls: MeteredCall[], prices: ModelPriceTable): Array<UsageSummary & { model: string }> {
+  const byModel = new Map<string, { inputTokens: number; outputTokens: number; embeddingTokens: number; estimated: boolean }>();
+
+  for (const call of calls) {
+    const row = byModel.get(call.model) ?? { inputTokens: 0, outputTokens: 0, embeddingTokens: 0, estimated: false };
+    if (call.type === 'chat') {
+      if (call.usage) {
+        row.inputTokens += call.usage.inputTokens;
+        row.outputTokens += call.usage.outputTokens;
+      } else {
+        row.inputTokens += (call.messages ?? []).reduce((sum, message) => sum + countTokens(message.content, call.model), 0);
+        row.outputTokens += countTokens(call.content ?? '', call.model);
+        row.estimated = true;
+      }
+    } else if (call.tokens !== undefined) {
+      row.embeddingTokens += call.tokens;
+    } else {
+      row.embeddingTokens += countTokens(call.text ?? '', call.model);
+      row.estimated = true;
+    }
+    byModel.set(call.model, row);
+  }
+
+  return Array.from(byModel.entries()).map(([model, row]) => {
+    const price = findModelPrice(model, prices);
+    const cost = price
+      ? ((row.inputTokens + row.embeddingTokens) * price.input + row.outputTokens * price.output) / 1_000_000
+      : 0;
+    return { model, ...row, cost };
+  });
+}
+
+function totalUsage(rows: Array<Omit<UsageSummary, 'estimated'> & { estimated?: boolean }>): UsageSummary {
+  return rows.reduce<UsageSummary>((total, row) => ({
+    inputTokens: total.inputTokens + row.inputTokens,
+    outputTokens: total.outputTokens + row.outputTokens,
+    embeddingTokens: total.embeddingTokens + row.embeddingTokens,
+    cost: total.cost + row.cost,
+    estimated: total.estimated || !!row.estimated,
+  }), { inputTokens: 0, outputTokens: 0, embeddingTokens: 0, cost: 0, estimated: false });
+}
+
+// Store the usage of a finished request against the user who made it. Usage is
+// bookkeeping, so a failure is logged and null returned rather than failing the request.
+export async function recordUsage(
+  calls: MeteredCall[],
+  operation: UsageOperation,
+  userId: string | null,
+  messageId: string | null = null,
+  settings: Record<string, string> = getAllSettingsFromCache()
+): Promise<UsageSummary | null> {
+  if (calls.length === 0) return null;
+
+  try {
+    const rows = summarizeCalls(calls, getModelPrices(settings));
+    await db.insert(tokenUsage).values(rows.map((row) => ({ ...row, operation, userId, messageId })));
+
+    const summary = totalUsage(rows);
+    console.log(`💰 ${operation} used ${summary.inputTokens} in / ${summary.outputTokens} out / ${summary.embeddingTokens} embedding tokens (~$${summary.cost.toFixed(5)}${summary.estimated ? ', estimated' : ''})`);
+    return summary;
+  } catch (error) {
+    console.error('Error recording token usage:', error);
+    return null;
+  }
+}
+
+// Meter fn and record what it used, for requests not tied to a new chat message
+export async function withUsageTracking<T>(
+  operation: UsageOperation,
+  userId: string | null,
+  fn: () => Promise<T>,
+  messageId: string | null = null
+): Promise<T> {
+  const calls: MeteredCall[] = [];
+  try {
+    return await meterUsage(calls, fn);
+  } finally {
+    await recordUsage(calls, operation, userId, messageId);
+  }
+}
+
+// Usage per day and model over the last `days` days, oldest first. With a userId
+// only that account's usage is counted.
+export async function getUsageStats(days: number = DEFAULT_USAGE_DAYS, userId?: string): Promise<UsageStats> {
+  try {
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - (days - 1));
+
+    const date = sql<string>`to_char(${tokenUsage.createdAt}, 'YYYY-MM-DD')`;
+    const daily: DailyUsage[] = await db.select({
+      date,
+      model: tokenUsage.model,
+      inputTokens: sql<number>`sum(${tokenUsage.inputTokens})::int`,
+      outputTokens: sql<number>`sum(${tokenUsage.outputTokens})::int`,
+      embeddingTokens: sql<number>`sum(${tokenUsage.embeddingTokens})::int`,
+      cost: sql<number>`sum(${tokenUsage.cost})::float8`,
+      requests: sql<number>`count(*)::int`,
+    })
+      .from(tokenUsage)
+      .where(and(gte(tokenUsage.createdAt, since), userId ? eq(tokenUsage.userId, userId) : undefined))
+      .groupBy(date, tokenUsage.model)
+      .orderBy(date, tokenUsage.model);
+
+    const { estimated, ...totals } = totalUsage(daily);
+    return { days, daily, totals };
+  } catch (error) {
+    console.error('Error getting usage stats:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,150 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { asc, count, eq, isNull } from 'drizzle-orm';
+import { db, setSetting } from './database';
+import { conversations, documents, users, type PublicUser, type User, type UserRole } from '../../shared/schema';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+export const MIN_PASSWORD_LENGTH = 8;
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,64}$/;
+
+// Stored as "<hash>.<salt>" in hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${hash.toString('hex')}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split('.');
+  if (!hash || !salt) return false;
+
+  const storedHash = Buffer.from(hash, 'hex');
+  const suppliedHash = await scryptAsync(password, salt, KEY_LENGTH);
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+// Returns an error message, or null when the credentials can be used to register
+export function validateCredentials(username: unknown, password: unknown): string | null {
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+    return 'Username must be 3 to 64 letters, digits, dots, dashes or underscores';
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+export async function getUser(id: string): Promise<User | null> {
+  try {
+    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0] || null;
+  } catch (error) {
+    console.error('Error getting user:', error);
+    throw error;
+  }
+}
+
+// Usernames are matched case-insensitively by storing them lowercased
+export async function getUserByUsername(username: string): Promise<User | null> {
+  try {
+    const result = await db.select().from(users).where(eq(users.username, username.toLowerCase())).limit(1);
+    return result[0] || null;
+  } catch (error) {
+    console.error('Error getting user by username:', error);
+    throw error;
+  }
+}
+
+export async function createUser(username: string, password: string): Promise<User> {
+  try {
+    const [{ existing }] = await db.select({ existing: count() }).from(users);
+    // Whoever sets the app up administers it
+    const [created] = await db.insert(users)
+      .values({
+        username: username.toLowerCase(),
+        passwordHash: await hashPassword(password),
+        role: existing === 0 ? 'admin' : 'member',
+      })
+      .returning();
+
+    // Before accounts there was a single shared workspace; it belongs to the first account too
+    if (existing === 0) {
+      await claimUnownedData(created.id);
+    }
+
+    console.log(`👤 Created ${created.role} ${created.username}`);
+    return created;
+  } catch (error) {
+    console.error('Error creating user:', error);
+    throw error;
+  }
+}
+
+// Vectors can't be re-tagged without re-embedding them, so unowned memories are
+// instead made visible to the legacy owner through their memory scope
+async function claimUnownedData(userId: string): Promise<void> {
+  const claimedConversations = await db.update(conversations)
+    .set({ userId })
+    .where(isNull(conversations.userId))
+    .returning({ id: conversations.id });
+  const claimedDocuments = await db.update(documents)
+    .set({ userId })
+    .where(isNull(documents.userId))
+    .returning({ id: documents.id });
+  await setSetting('legacyOwnerId', userId);
+
+  console.log(`👤 First account claimed ${claimedConversations.length} conversations, ${claimedDocuments.length} documents and unowned memories`);
+}
+
+export async function listUsers(): Promise<PublicUser[]> {
+  try {
+    const rows = await db.select().from(users).orderBy(asc(users.createdAt));
+    return rows.map(toPublicUser);
+  } catch (error) {
+    console.error('Error listing users:', error);
+    throw error;
+  }
+}
+
+export async function countAdmins(): Promise<number> {
+  try {
+    const [{ admins }] = await db.select({ admins: count() }).from(users).where(eq(users.role, 'admin'));
+    return admins;
+  } catch (error) {
+    console.error('Error counting admins:', error);
+    throw error;
+  }
+}
+
+export async function setUserRole(id: string, role: UserRole): Promise<User | null> {
+  try {
+    const [updated] = await db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    if (updated) console.log(`👤 ${updated.username} is now ${role}`);
+    return updated || null;
+  } catch (error) {
+    console.error('Error setting user role:', error);
+    throw error;
+  }
+}
+
+// Accounts created before roles existed all default to member; make the oldest one
+// admin so somebody can still change the shared settings
+export async function ensureAdminExists(): Promise<void> {
+  try {
+    if (await countAdmins() > 0) return;
+
+    const [oldest] = await db.select().from(users).orderBy(asc(users.createdAt)).limit(1);
+    if (oldest) await setUserRole(oldest.id, 'admin');
+  } catch (error) {
+    console.error('Error ensuring an admin exists:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,42 @@
+import dotenv from 'dotenv';
+import { PineconeService } from './pinecone';
+import { MilvusService } from './milvus';
+import { LocalVectorStore } from './local';
+import { KeywordIndexedStore } from './keyword-index';
+import type { VectorStore, VectorStoreType } from './types';
+dotenv.config();
+
+export * from './types';
+export { tokenize, type KeywordSearchResult } from './keyword-index';
+
+const VECTOR_STORE_TYPES: VectorStoreType[] = ['pinecone', 'milvus', 'local'];
+
+// VECTOR_STORE picks the backend explicitly; otherwise use whichever cloud
+// service has credentials and fall back to the local store
+function resolveVectorStoreType(): VectorStoreType {
+  const configured = process.env.VECTOR_STORE?.toLowerCase();
+  if (configured) {
+    if (VECTOR_STORE_TYPES.includes(configured as VectorStoreType)) {
+      return configured as VectorStoreType;
+    }
+    console.warn(`Unknown VECTOR_STORE "${configured}", expected one of: ${VECTOR_STORE_TYPES.join(', ')}`);
+  }
+
+  if (process.env.PINECONE_API_KEY) return 'pinecone';
+  if (process.env.MILVUS_URL) return 'milvus';
+  return 'local';
+}
+
+export function createVectorStore(type: VectorStoreType): VectorStore {
+  switch (type) {
+    case 'pinecone':
+      return new PineconeService();
+    case 'milvus':
+      return new MilvusService();
+    case 'local':
+      return new LocalVectorStore();
+  }
+}
+
+// Every backend gets a local keyword index for hybrid retrieval
+export const vectorStore = new KeywordIndexedStore(createVectorStore(resolveVectorStoreType()));
@@ -0,0 +1,222 @@
+import {
+  MAX_SEARCH_LIMIT,
+  matchesVectorFilter,
+  type StoredVector,
+  type VectorFilter,
+  type VectorListOptions,
+  type VectorListPage,
+  type VectorResponse,
+  type VectorSearchResult,
+  type VectorStore,
+  type VectorStoreStats,
+} from './types';
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const LIST_PAGE_SIZE = 100;
+
+// Identifiers such as ERR-1042, SKU_88/B or getUserById stay whole so exact
+// lookups match, and their parts are indexed too so partial lookups still hit
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().match(/[a-z0-9_\u00c0-\uffff]+(?:[.\-:/#][a-z0-9_\u00c0-\uffff]+)*/g) || []) {
+    tokens.push(match);
+    if (/[.\-:/#]/.test(match)) {
+      tokens.push(...match.split(/[.\-:/#]/).filter(Boolean));
+    }
+  }
+  return tokens;
+}
+
+interface IndexedDocument {
+  vector: StoredVector;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export interface KeywordSearchResult extends StoredVector {
+  score: number;
+}
+
+// In-process BM25 index over stored memories and document chunks
+export class KeywordIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  add(vector: StoredVector): void {
+    this.remove(vector.id);
+
+    const tokens = tokenize([vector.documentName ?? '', vector.query, vector.response].join(' '));
+    const termFrequencies = new Map<string, number>();
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+    }
+
+    termFrequencies.forEach((_, term) => {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+    });
+    this.documents.set(vector.id, { vector, termFrequencies, length: tokens.length });
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): void {
+    const existing = this.documents.get(id);
+    if (!existing) return;
+
+    existing.termFrequencies.forEach((_, term) => {
+      const count = (this.documentFrequencies.get(term) ?? 1) - 1;
+      if (count > 0) this.documentFrequencies.set(term, count);
+      else this.documentFrequencies.delete(term);
+    });
+    this.documents.delete(id);
+    this.totalLength -= existing.length;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.documentFrequencies.clear();
+    this.totalLength = 0;
+  }
+
+  count(filter?: VectorFilter): number {
+    let total = 0;
+    this.documents.forEach(({ vector }) => {
+      if (matchesVectorFilter(vector, filter)) total++;
+    });
+    return total;
+  }
+
+  search(query: string, limit: number = 10, filter?: VectorFilter): KeywordSearchResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.documents.size === 0) return [];
+
+    const averageLength = this.totalLength / this.documents.size;
+    const results: KeywordSearchResult[] = [];
+
+    this.documents.forEach(({ vector, termFrequencies, length }) => {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = termFrequencies.get(term);
+        if (!frequency) continue;
+
+        const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (this.documents.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+      }
+
+      if (score > 0 && matchesVectorFilter(vector, filter)) {
+        results.push({ ...vector, score: Number(score.toFixed(4)) });
+      }
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, Math.min(limit, MAX_SEARCH_LIMIT));
+  }
+}
+
+// Wraps any backend so every write also updates a local keyword index. The index
+// is rebuilt from the backend on connect, since only the backend is persistent.
+// It is uncapped: every stored vector's text (not its embedding) is held in this
+// process's memory, so memory use grows with the backend and the startup rebuild
+// pages through the whole collection.
+export class KeywordIndexedStore implements VectorStore {
+  private readonly index = new KeywordIndex();
+  // Whether the index holds every stored vector, so it can answer counts
+  private complete = false;
+
+  constructor(private readonly store: VectorStore) {}
+
+  get type() {
+    return this.store.type;
+  }
+
+  get displayName() {
+    return this.store.displayName;
+  }
+
+  async connect(): Promise<void> {
+    await this.store.connect();
+    if (!this.store.getConnectionStatus()) return;
+
+    try {
+      this.complete = false;
+      this.index.clear();
+      let cursor: string | undefined;
+      do {
+        const page: VectorListPage = await this.store.listVectors({ limit: LIST_PAGE_SIZE, cursor });
+        page.vectors.forEach((vector) => this.index.add(vector));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      this.complete = true;
+      console.log(`🔤 Built keyword index over ${this.index.size} vectors`);
+    } catch (error) {
+      // Vector search still works without it
+      console.error("Failed to build keyword index:", error);
+    }
+  }
+
+  async insertVector(vectorResponse: VectorResponse): Promise<void> {
+    await this.store.insertVector(vectorResponse);
+    const { embedding, ...stored } = vectorResponse;
+    this.index.add(stored);
+  }
+
+  searchSimilar(queryEmbedding: number[], threshold?: number, limit?: number, filter?: VectorFilter): Promise<VectorSearchResult[]> {
+    return this.store.searchSimilar(queryEmbedding, threshold, limit, filter);
+  }
+
+  async keywordSearch(query: string, limit?: number, filter?: VectorFilter): Promise<KeywordSearchResult[]> {
+    if (!this.store.getConnectionStatus()) return [];
+    return this.index.search(query, limit, filter);
+  }
+
+  fetchVectors(vectorIds: string[]): Promise<StoredVector[]> {
+    return this.store.fetchVectors(vectorIds);
+  }
+
+  listVectors(options: VectorListOptions): Promise<VectorListPage> {
+    return this.store.listVectors(options);
+  }
+
+  async deleteVector(vectorId: string): Promise<void> {
+    await this.store.deleteVector(vectorId);
+    this.index.remove(vectorId);
+  }
+
+  // Backends only count the whole collection, so a filtered count comes from the
+  // index, or from paging through the backend if the index couldn't be built
+  async countVectors(filter?: VectorFilter): Promise<number> {
+    if (!this.store.getConnectionStatus()) return 0;
+    if (this.complete) return this.index.count(filter);
+
+    let total = 0;
+    let cursor: string | undefined;
+    do {
+      const page = await this.store.listVectors({ limit: LIST_PAGE_SIZE, cursor, filter });
+      total += page.vectors.length;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return total;
+  }
+
+  getCollectionStats(): Promise<VectorStoreStats> {
+    return this.store.getCollectionStats();
+  }
+
+  async clearCollection(): Promise<void> {
+    await this.store.clearCollection();
+    this.index.clear();
+  }
+
+  getConnectionStatus(): boolean {
+    return this.store.getConnectionStatus();
+  }
+}
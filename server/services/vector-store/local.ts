@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import {
+  MAX_SEARCH_LIMIT,
+  matchesVectorFilter,
+  pickChunkMetadata,
+  type VectorFilter,
+  type VectorListOptions,
+  type VectorListPage,
+  type VectorResponse,
+  type StoredVector,
+  type VectorSearchResult,
+  type VectorStore,
+  type VectorStoreStats,
+} from './types';
+dotenv.config();
+
+// Vectors are persisted as JSON; set LOCAL_VECTOR_STORE_PATH to an empty string to keep them in memory only
+const STORE_PATH = process.env.LOCAL_VECTOR_STORE_PATH ?? path.resolve('data', 'vector-store.json');
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// In-process vector store with brute-force cosine search, for development and tests
+// without a cloud account. Fine for a few thousand vectors.
+export class LocalVectorStore implements VectorStore {
+  readonly type = 'local' as const;
+  readonly displayName = 'Local';
+  private vectors = new Map<string, VectorResponse>();
+  private isConnected: boolean = false;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string | null = STORE_PATH || null) {}
+
+  async connect(): Promise<void> {
+    if (this.filePath) {
+      try {
+        const raw = await fs.readFile(this.filePath, 'utf8');
+        const records = JSON.parse(raw) as VectorResponse[];
+        this.vectors = new Map(records.map((record) => [record.id, record]));
+        console.log(`Loaded ${this.vectors.size} vectors from ${this.filePath}`);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error("Failed to load local vector store:", error);
+          throw error;
+        }
+      }
+    }
+
+    this.isConnected = true;
+    console.log("Connected to local vector store successfully");
+  }
+
+  // Serialize writes so concurrent mutations never interleave on disk
+  private persist(): Promise<void> {
+    if (!this.filePath) return Promise.resolve();
+
+    const filePath = this.filePath;
+    const snapshot = JSON.stringify(Array.from(this.vectors.values()));
+
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await fs.writeFile(tempPath, snapshot, 'utf8');
+      await fs.rename(tempPath, filePath);
+    });
+
+    return this.writeQueue;
+  }
+
+  async insertVector(vectorResponse: VectorResponse): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error("Local vector store is not connected.");
+    }
+
+    if (!Array.isArray(vectorResponse.embedding) || vectorResponse.embedding.length === 0) {
+      throw new Error("Invalid embedding: expected a non-empty array of numbers");
+    }
+
+    this.vectors.set(vectorResponse.id, {
+      ...vectorResponse,
+      sources: Array.isArray(vectorResponse.sources) ? vectorResponse.sources.slice(0, 10) : [],
+    });
+    await this.persist();
+
+    console.log(`✅ Successfully inserted vector with ID: ${vectorResponse.id}`);
+  }
+
+  async searchSimilar(queryEmbedding: number[], threshold: number = 0.7, limit: number = 10, filter?: VectorFilter): Promise<VectorSearchResult[]> {
+    if (!this.isConnected) {
+      console.warn("Local vector store is not connected, returning empty results");
+      return [];
+    }
+
+    const results: VectorSearchResult[] = [];
+    this.vectors.forEach((record) => {
+      // Vectors from a different embedding model cannot be compared
+      if (record.embedding.length !== queryEmbedding.length) return;
+
+      const similarity = cosineSimilarity(queryEmbedding, record.embedding);
+      if (similarity >= threshold) {
+        const result: VectorSearchResult = {
+          id: record.id,
+          query: record.query,
+          response: record.response,
+          sources: record.sources,
+          similarity: Number(similarity.toFixed(4)),
+          timestamp: record.timestamp,
+          ...pickChunkMetadata(record),
+        };
+        if (matchesVectorFilter(result, filter)) results.push(result);
+      }
+    });
+
+    return results
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, Math.min(limit, MAX_SEARCH_LIMIT));
+  }
+
+  async getCollectionStats(): Promise<VectorStoreStats> {
+    if (!this.isConnected) {
+      return {
+        totalResponses: 0,
+        collectionSize: "Disconnected",
+      };
+    }
+
+    let bytes = 0;
+    this.vectors.forEach((record) => {
+      bytes += record.embedding.length * 4 + record.query.length + record.response.length;
+    });
+    const sizeKB = bytes / 1024;
+
+    return {
+      totalResponses: this.vectors.size,
+      collectionSize: sizeKB >= 1024 ? `${(sizeKB / 1024).toFixed(1)} MB` : `${sizeKB.toFixed(1)} KB`,
+    };
+  }
+
+  async clearCollection(): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error("Local vector store is not connected.");
+    }
+
+    this.vectors.clear();
+    await this.persist();
+    console.log("✅ Successfully cleared all vectors from local vector store");
+  }
+
+  async fetchVectors(vectorIds: string[]): Promise<StoredVector[]> {
+    if (!this.isConnected) {
+      return [];
+    }
+
+    return vectorIds.flatMap((id) => {
+      const record = this.vectors.get(id);
+      if (!record) return [];
+      const { embedding, ...stored } = record;
+      return [stored];
+    });
+  }
+
+  // Newest first, filtered before paging so every page is full
+  async listVectors({ limit, cursor, filter }: VectorListOptions): Promise<VectorListPage> {
+    if (!this.isConnected) {
+      return { vectors: [], nextCursor: null };
+    }
+
+    const offset = parseInt(cursor || '0', 10) || 0;
+    const matching = Array.from(this.vectors.values())
+      .map(({ embedding, ...stored }) => stored)
+      .filter((stored) => matchesVectorFilter(stored, filter))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    return {
+      vectors: matching.slice(offset, offset + limit),
+      nextCursor: offset + limit < matching.length ? String(offset + limit) : null,
+    };
+  }
+
+  async deleteVector(vectorId: string): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error("Local vector store is not connected.");
+    }
+
+    this.vectors.delete(vectorId);
+    await this.persist();
+    console.log(`Deleted vector with ID: ${vectorId}`);
+  }
+
+  getConnectionStatus(): boolean {
+    return this.isConnected;
+  }
+}
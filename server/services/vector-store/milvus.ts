@@ -0,0 +1,327 @@
+import dotenv from 'dotenv';
+import {
+  VECTOR_DIM,
+  MAX_SEARCH_LIMIT,
+  formatEstimatedSize,
+  hasVectorFilter,
+  matchesVectorFilter,
+  pickChunkMetadata,
+  type VectorFilter,
+  type VectorListOptions,
+  type VectorListPage,
+  type VectorResponse,
+  type StoredVector,
+  type VectorSearchResult,
+  type VectorStore,
+  type VectorStoreStats,
+} from './types';
+dotenv.config();
+
+const COLLECTION_NAME = process.env.MILVUS_COLLECTION || "chat_responses";
+const OUTPUT_FIELDS = ["query", "response", "sources", "timestamp", "documentId", "documentName", "messageId", "chunkIndex", "chunkCount", "userId"];
+
+interface MilvusResponse<T> {
+  code: number;
+  message?: string;
+  data: T;
+}
+
+// Apply the user scope inside Milvus so other accounts' vectors can't crowd a user's
+// out of a search or a page; the remaining filters are matched afterwards
+function toMilvusFilter(filter?: VectorFilter): string | undefined {
+  if (!filter?.userId) return undefined;
+  const owned = `userId == ${JSON.stringify(filter.userId)}`;
+  return filter.includeUnowned ? `(${owned}) or not (exists $meta["userId"])` : owned;
+}
+
+function toStoredVector(entity: Record<string, any>): StoredVector {
+  return {
+    id: String(entity.id),
+    query: entity.query || '',
+    response: entity.response || '',
+    sources: Array.isArray(entity.sources) ? entity.sources : [],
+    timestamp: entity.timestamp || '',
+    ...pickChunkMetadata(entity),
+  };
+}
+
+// Talks to Milvus (or Zilliz Cloud) through its RESTful v2 API so no gRPC SDK is needed
+export class MilvusService implements VectorStore {
+  readonly type = 'milvus' as const;
+  readonly displayName = 'Milvus';
+  private readonly baseUrl: string | null;
+  private readonly token: string | undefined;
+  private isConnected: boolean = false;
+  private connectionRetries: number = 0;
+  private readonly maxRetries: number = 3;
+
+  constructor() {
+    this.baseUrl = process.env.MILVUS_URL ? process.env.MILVUS_URL.replace(/\/+$/, '') : null;
+    this.token = process.env.MILVUS_TOKEN;
+  }
+
+  private async request<T>(path: string, body: Record<string, unknown>): Promise<T> {
+    if (!this.baseUrl) {
+      throw new Error("Milvus URL must be configured. Please set MILVUS_URL environment variable.");
+    }
+
+    const response = await fetch(`${this.baseUrl}/v2/vectordb${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Milvus request ${path} failed with HTTP ${response.status}`);
+    }
+
+    const result = await response.json() as MilvusResponse<T>;
+    if (result.code !== 0) {
+      throw new Error(`Milvus request ${path} failed: ${result.message || `code ${result.code}`}`);
+    }
+
+    return result.data;
+  }
+
+  async connect(): Promise<void> {
+    if (!this.baseUrl) {
+      throw new Error("Milvus URL must be configured. Please set MILVUS_URL environment variable.");
+    }
+
+    while (this.connectionRetries < this.maxRetries) {
+      try {
+        await this.ensureCollection();
+        this.isConnected = true;
+        this.connectionRetries = 0; // Reset retry counter on success
+        console.log("Connected to Milvus successfully");
+        return;
+      } catch (error) {
+        this.connectionRetries++;
+        console.error(`Failed to connect to Milvus (attempt ${this.connectionRetries}/${this.maxRetries}):`, error);
+
+        if (this.connectionRetries >= this.maxRetries) {
+          this.isConnected = false;
+          throw new Error(`Failed to connect to Milvus after ${this.maxRetries} attempts`);
+        }
+
+        // Wait before retry (exponential backoff)
+        await new Promise(resolve => setTimeout(resolve, Math.pow(2, this.connectionRetries) * 1000));
+      }
+    }
+  }
+
+  async ensureCollection(): Promise<void> {
+    const { has } = await this.request<{ has: boolean }>('/collections/has', {
+      collectionName: COLLECTION_NAME,
+    });
+
+    if (!has) {
+      // Quick-setup collection: VarChar primary key, cosine index and dynamic fields for metadata
+      await this.request('/collections/create', {
+        collectionName: COLLECTION_NAME,
+        dimension: VECTOR_DIM,
+        metricType: 'COSINE',
+        idType: 'VarChar',
+        primaryFieldName: 'id',
+        vectorFieldName: 'vector',
+        params: { max_length: 64 },
+      });
+      console.log(`Created Milvus collection: ${COLLECTION_NAME}`);
+    }
+
+    await this.request('/collections/load', { collectionName: COLLECTION_NAME });
+  }
+
+  async insertVector(vectorResponse: VectorResponse): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error("Milvus is not connected. Please ensure MILVUS_URL is configured.");
+    }
+
+    // Validate inputs
+    if (!Array.isArray(vectorResponse.embedding) || vectorResponse.embedding.length !== VECTOR_DIM) {
+      throw new Error(`Invalid embedding dimension. Expected ${VECTOR_DIM}, got ${vectorResponse.embedding.length}`);
+    }
+
+    try {
+      await this.request('/entities/upsert', {
+        collectionName: COLLECTION_NAME,
+        data: [
+          {
+            id: vectorResponse.id,
+            vector: vectorResponse.embedding,
+            query: vectorResponse.query,
+            response: vectorResponse.response,
+            sources: Array.isArray(vectorResponse.sources) ? vectorResponse.sources.slice(0, 10) : [],
+            timestamp: vectorResponse.timestamp,
+            ...pickChunkMetadata(vectorResponse),
+          },
+        ],
+      });
+
+      console.log(`✅ Successfully inserted vector with ID: ${vectorResponse.id}`);
+    } catch (error) {
+      console.error("Failed to insert vector to Milvus:", error);
+      throw error;
+    }
+  }
+
+  async searchSimilar(queryEmbedding: number[], threshold: number = 0.7, limit: number = 10, filter?: VectorFilter): Promise<VectorSearchResult[]> {
+    if (!this.isConnected) {
+      console.warn("Milvus is not connected, returning empty results");
+      return [];
+    }
+
+    // Validate inputs
+    if (!Array.isArray(queryEmbedding) || queryEmbedding.length !== VECTOR_DIM) {
+      throw new Error(`Invalid embedding dimension. Expected ${VECTOR_DIM}, got ${queryEmbedding.length}`);
+    }
+
+    try {
+      const matches = await this.request<Array<Record<string, any>>>('/entities/search', {
+        collectionName: COLLECTION_NAME,
+        data: [queryEmbedding],
+        annsField: 'vector',
+        // Cap limit to prevent excessive results; over-fetch when results will be filtered
+        limit: hasVectorFilter(filter) ? MAX_SEARCH_LIMIT : Math.min(limit, MAX_SEARCH_LIMIT),
+        ...(toMilvusFilter(filter) ? { filter: toMilvusFilter(filter) } : {}),
+        outputFields: OUTPUT_FIELDS,
+      });
+
+      // With the COSINE metric Milvus reports similarity as `distance` (higher is closer)
+      return (matches || [])
+        .filter((match) => match.distance >= threshold)
+        .map((match) => ({
+          ...toStoredVector(match),
+          similarity: Number(Number(match.distance).toFixed(4)),
+        }))
+        .filter((result) => matchesVectorFilter(result, filter))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit);
+    } catch (error) {
+      console.error("Failed to search similar vectors in Milvus:", error);
+      // Return empty array instead of throwing to maintain app functionality
+      return [];
+    }
+  }
+
+  async getCollectionStats(): Promise<VectorStoreStats> {
+    if (!this.isConnected) {
+      return {
+        totalResponses: 0,
+        collectionSize: "Disconnected",
+      };
+    }
+
+    try {
+      const stats = await this.request<{ rowCount: number }>('/collections/get_stats', {
+        collectionName: COLLECTION_NAME,
+      });
+      const vectorCount = stats.rowCount || 0;
+
+      return {
+        totalResponses: vectorCount,
+        collectionSize: formatEstimatedSize(vectorCount),
+      };
+    } catch (error) {
+      console.error("Failed to get collection stats:", error);
+      return {
+        totalResponses: 0,
+        collectionSize: "Error",
+      };
+    }
+  }
+
+  async clearCollection(): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error("Milvus is not connected. Please ensure MILVUS_URL is configured.");
+    }
+
+    try {
+      // Dropping and recreating is the cheapest way to empty a collection
+      await this.request('/collections/drop', { collectionName: COLLECTION_NAME });
+      await this.ensureCollection();
+      console.log("✅ Successfully cleared all vectors from Milvus collection");
+    } catch (error) {
+      console.error("Failed to clear Milvus collection:", error);
+      throw error;
+    }
+  }
+
+  async fetchVectors(vectorIds: string[]): Promise<StoredVector[]> {
+    if (!this.isConnected || vectorIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const entities = await this.request<Array<Record<string, any>>>('/entities/get', {
+        collectionName: COLLECTION_NAME,
+        id: vectorIds,
+        outputFields: OUTPUT_FIELDS,
+      });
+      return (entities || []).map(toStoredVector);
+    } catch (error) {
+      console.error("Failed to fetch vectors from Milvus:", error);
+      throw error;
+    }
+  }
+
+  // Offset pagination over a scalar query scoped to the user; the other filters are
+  // applied to each page, so filtered pages can come back short
+  async listVectors({ limit, cursor, filter }: VectorListOptions): Promise<VectorListPage> {
+    if (!this.isConnected) {
+      return { vectors: [], nextCursor: null };
+    }
+
+    const offset = parseInt(cursor || '0', 10) || 0;
+    const pageSize = Math.min(limit, MAX_SEARCH_LIMIT);
+
+    try {
+      // Only the owner is filtered by Milvus, so keep querying until the rest of the
+      // filter has filled the page. Each batch asks for no more than is missing.
+      const vectors: StoredVector[] = [];
+      let nextOffset: number | null = offset;
+      while (nextOffset !== null && vectors.length < pageSize) {
+        const batchSize = pageSize - vectors.length;
+        const entities: Array<Record<string, any>> = await this.request('/entities/query', {
+          collectionName: COLLECTION_NAME,
+          filter: toMilvusFilter(filter) ?? 'id != ""',
+          limit: batchSize,
+          offset: nextOffset,
+          outputFields: OUTPUT_FIELDS,
+        });
+        const batch = (entities || []).map(toStoredVector);
+        vectors.push(...batch.filter((vector) => matchesVectorFilter(vector, filter)));
+        nextOffset = batch.length === batchSize ? nextOffset + batchSize : null;
+      }
+
+      return { vectors, nextCursor: nextOffset === null ? null : String(nextOffset) };
+    } catch (error) {
+      console.error("Failed to list vectors from Milvus:", error);
+      throw error;
+    }
+  }
+
+  async deleteVector(vectorId: string): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error("Milvus is not connected. Please ensure MILVUS_URL is configured.");
+    }
+
+    try {
+      await this.request('/entities/delete', {
+        collectionName: COLLECTION_NAME,
+        filter: `id in [${JSON.stringify(vectorId)}]`,
+      });
+      console.log(`Deleted vector with ID: ${vectorId}`);
+    } catch (error) {
+      console.error("Failed to delete vector from Milvus:", error);
+      throw error;
+    }
+  }
+
+  getConnectionStatus(): boolean {
+    return this.isConnected;
+  }
+}
@@ -1,30 +1,47 @@
 import { Pinecone } from '@pinecone-database/pinecone';
-import { randomUUID } from 'crypto';
 import dotenv from 'dotenv';
+import {
+  VECTOR_DIM,
+  MAX_SEARCH_LIMIT,
+  formatEstimatedSize,
+  hasVectorFilter,
+  matchesVectorFilter,
+  pickChunkMetadata,
+  type VectorFilter,
+  type VectorListOptions,
+  type VectorListPage,
+  type VectorResponse,
+  type StoredVector,
+  type VectorSearchResult,
+  type VectorStore,
+  type VectorStoreStats,
+} from './types';
 dotenv.config();
 
-export interface ChatMessage {
-  id: string;
-  content: string;
-  role: 'user' | 'assistant';
-  timestamp: Date;
-  sources?: string[];
-  savedToVector?: boolean;
-}
+const INDEX_NAME = "chat-responses";
 
-export interface VectorResponse {
-  id: string;
-  query: string;
-  response: string;
-  embedding: number[];
-  sources: string[];
-  timestamp: string;
+// Scope the query to one account natively, so other users' vectors can't crowd
+// its matches out of topK. The full filter is still applied to the results.
+function toPineconeFilter(filter?: VectorFilter): Record<string, unknown> | undefined {
+  if (!filter?.userId) return undefined;
+  const owned = { userId: { $eq: filter.userId } };
+  return filter.includeUnowned ? { $or: [owned, { userId: { $exists: false } }] } : owned;
 }
 
-const INDEX_NAME = "chat-responses";
-const VECTOR_DIM = 1536; // OpenAI embedding dimension
+function toStoredVector(id: string, metadata: Record<string, any>): StoredVector {
+  return {
+    id,
+    query: metadata.query || '',
+    response: metadata.response || '',
+    sources: Array.isArray(metadata.sources) ? metadata.sources : [],
+    timestamp: metadata.timestamp || '',
+    ...pickChunkMetadata(metadata),
+  };
+}
 
-class PineconeService {
+export class PineconeService implements VectorStore {
+  readonly type = 'pinecone' as const;
+  readonly displayName = 'Pinecone';
   private client: Pinecone | null = null;
   private isConnected: boolean = false;
   private index: any = null;
@@ -112,14 +129,7 @@ class PineconeService {
     }
   }
 
-  async insertVector(vectorResponse: {
-    id: string;
-    query: string;
-    response: string;
-    embedding: number[];
-    sources: string[];
-    timestamp: string;
-  }): Promise<void> {
+  async insertVector(vectorResponse: VectorResponse): Promise<void> {
     if (!this.isConnected || !this.index) {
       throw new Error("Pinecone is not connected. Please ensure PINECONE_API_KEY is configured.");
     }
@@ -130,12 +140,14 @@ class PineconeService {
     }
 
     try {
-      // Ensure metadata strings are truncated to prevent Pinecone limits
+      // Long responses are chunked before they get here (see chunking.ts), which
+      // keeps metadata well inside Pinecone's 40KB per-vector limit
       const metadata = {
-        query: vectorResponse.query.substring(0, 1000), // Limit query length
-        response: vectorResponse.response.substring(0, 5000), // Limit response length
+        query: vectorResponse.query,
+        response: vectorResponse.response,
         sources: Array.isArray(vectorResponse.sources) ? vectorResponse.sources.slice(0, 10) : [], // Limit sources count
         timestamp: vectorResponse.timestamp,
+        ...pickChunkMetadata(vectorResponse),
       };
 
       await this.index.upsert([
@@ -153,14 +165,7 @@ class PineconeService {
     }
   }
 
-  async searchSimilar(queryEmbedding: number[], threshold: number = 0.7, limit: number = 10): Promise<Array<{
-    id: string;
-    query: string;
-    response: string;
-    sources: string[];
-    similarity: number;
-    timestamp: string;
-  }>> {
+  async searchSimilar(queryEmbedding: number[], threshold: number = 0.7, limit: number = 10, filter?: VectorFilter): Promise<VectorSearchResult[]> {
     if (!this.isConnected || !this.index) {
       console.warn("Pinecone is not connected, returning empty results");
       return [];
@@ -174,7 +179,9 @@ class PineconeService {
     try {
       const searchResults = await this.index.query({
         vector: queryEmbedding,
-        topK: Math.min(limit, 50), // Cap limit to prevent excessive results
+        // Cap limit to prevent excessive results; over-fetch when results will be filtered
+        topK: hasVectorFilter(filter) ? MAX_SEARCH_LIMIT : Math.min(limit, MAX_SEARCH_LIMIT),
+        filter: toPineconeFilter(filter),
         includeMetadata: true,
         includeValues: false, // Don't return vectors for performance
       });
@@ -182,15 +189,14 @@ class PineconeService {
       const results = searchResults.matches
         ?.filter((result: any) => result.score >= threshold && result.metadata)
         .map((result: any) => ({
-          id: result.id,
-          query: result.metadata.query || '',
-          response: result.metadata.response || '',
-          sources: Array.isArray(result.metadata.sources) ? result.metadata.sources : [],
+          ...toStoredVector(result.id, result.metadata),
           similarity: Number(result.score.toFixed(4)), // Round to 4 decimal places
-          timestamp: result.metadata.timestamp || '',
         })) || [];
 
-      return results.sort((a: any, b: any) => b.similarity - a.similarity); // Sort by similarity descending
+      return results
+        .filter((result: VectorSearchResult) => matchesVectorFilter(result, filter))
+        .sort((a: any, b: any) => b.similarity - a.similarity) // Sort by similarity descending
+        .slice(0, limit);
     } catch (error) {
       console.error("Failed to search similar vectors in Pinecone:", error);
       // Return empty array instead of throwing to maintain app functionality
@@ -198,10 +204,7 @@ class PineconeService {
     }
   }
 
-  async getCollectionStats(): Promise<{
-    totalResponses: number;
-    collectionSize: string;
-  }> {
+  async getCollectionStats(): Promise<VectorStoreStats> {
     if (!this.isConnected || !this.index) {
       return {
         totalResponses: 0,
@@ -212,14 +215,10 @@ class PineconeService {
     try {
       const stats = await this.index.describeIndexStats();
       const vectorCount = stats.totalVectorCount || 0;
-      
-      // Estimate size based on vector count (rough calculation)
-      const estimatedSizeMB = Math.round((vectorCount * VECTOR_DIM * 4) / (1024 * 1024));
-      const sizeDisplay = estimatedSizeMB > 0 ? `~${estimatedSizeMB}MB` : "<1MB";
 
       return {
         totalResponses: vectorCount,
-        collectionSize: sizeDisplay,
+        collectionSize: formatEstimatedSize(vectorCount),
       };
     } catch (error) {
       console.error("Failed to get index stats:", error);
@@ -244,6 +243,50 @@ class PineconeService {
     }
   }
 
+  async fetchVectors(vectorIds: string[]): Promise<StoredVector[]> {
+    if (!this.isConnected || !this.index || vectorIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const { records } = await this.index.fetch(vectorIds);
+      return Object.values(records)
+        .filter((record: any) => record.metadata)
+        .map((record: any) => toStoredVector(record.id, record.metadata));
+    } catch (error) {
+      console.error("Failed to fetch vectors from Pinecone:", error);
+      throw error;
+    }
+  }
+
+  // Pinecone lists IDs in index order with a pagination token; the filter is
+  // applied to each fetched page, so filtered pages can come back short
+  async listVectors({ limit, cursor, filter }: VectorListOptions): Promise<VectorListPage> {
+    if (!this.isConnected || !this.index) {
+      return { vectors: [], nextCursor: null };
+    }
+
+    const pageSize = Math.min(limit, MAX_SEARCH_LIMIT);
+    try {
+      // The filter is applied after listing, so keep listing until the page is full.
+      // Each batch asks for no more than is missing, so the token never skips matches.
+      const vectors: StoredVector[] = [];
+      let paginationToken = cursor || undefined;
+      do {
+        const page = await this.index.listPaginated({ limit: pageSize - vectors.length, paginationToken });
+        const ids = (page.vectors || []).map((vector: any) => vector.id).filter(Boolean);
+        const fetched = await this.fetchVectors(ids);
+        vectors.push(...fetched.filter((vector) => matchesVectorFilter(vector, filter)));
+        paginationToken = page.pagination?.next || undefined;
+      } while (paginationToken && vectors.length < pageSize);
+
+      return { vectors, nextCursor: paginationToken ?? null };
+    } catch (error) {
+      console.error("Failed to list vectors from Pinecone:", error);
+      throw error;
+    }
+  }
+
   async deleteVector(vectorId: string): Promise<void> {
     if (!this.isConnected || !this.index) {
       throw new Error("Pinecone is not connected. Please ensure PINECONE_API_KEY is configured.");
@@ -262,5 +305,3 @@ class PineconeService {
     return this.isConnected;
   }
 }
-
-export const pineconeService = new PineconeService();
\ No newline at end of file
@@ -0,0 +1,117 @@
+// Links a chunk vector back to what it was split from: an uploaded document
+// or a saved assistant message that was too long for a single vector
+export interface ChunkMetadata {
+  documentId?: string;
+  documentName?: string;
+  messageId?: string;
+  chunkIndex?: number;
+  chunkCount?: number;
+}
+
+// A vector's stored payload, without the embedding itself.
+// userId is the owning account; vectors saved before accounts existed have none.
+export interface StoredVector extends ChunkMetadata {
+  id: string;
+  userId?: string;
+  query: string;
+  response: string;
+  sources: string[];
+  timestamp: string;
+}
+
+export interface VectorResponse extends StoredVector {
+  embedding: number[];
+}
+
+export interface VectorSearchResult extends StoredVector {
+  similarity: number;
+}
+
+export interface VectorStoreStats {
+  totalResponses: number;
+  collectionSize: string;
+}
+
+export type VectorStoreType = 'pinecone' | 'milvus' | 'local';
+
+// Optional metadata filter for similarity search. Timestamps are ISO strings.
+export interface VectorFilter {
+  kind?: 'conversation' | 'document';
+  documentId?: string;
+  source?: string;
+  from?: string;
+  to?: string;
+  // Restrict to one account's vectors, optionally including ones without an owner
+  userId?: string;
+  includeUnowned?: boolean;
+}
+
+// Upper bound on results per search across all backends
+export const MAX_SEARCH_LIMIT = 100;
+
+// Cursor pagination for browsing stored vectors. The cursor is opaque to callers:
+// an offset for some backends, a pagination token for others.
+export interface VectorListOptions {
+  limit: number;
+  cursor?: string;
+  filter?: VectorFilter;
+}
+
+export interface VectorListPage {
+  vectors: StoredVector[];
+  nextCursor: string | null;
+}
+
+// Common contract for every vector database backend.
+// Reads degrade gracefully when disconnected; writes throw.
+export interface VectorStore {
+  readonly type: VectorStoreType;
+  readonly displayName: string;
+  connect(): Promise<void>;
+  insertVector(vectorResponse: VectorResponse): Promise<void>;
+  searchSimilar(queryEmbedding: number[], threshold?: number, limit?: number, filter?: VectorFilter): Promise<VectorSearchResult[]>;
+  fetchVectors(vectorIds: string[]): Promise<StoredVector[]>;
+  listVectors(options: VectorListOptions): Promise<VectorListPage>;
+  deleteVector(vectorId: string): Promise<void>;
+  getCollectionStats(): Promise<VectorStoreStats>;
+  clearCollection(): Promise<void>;
+  getConnectionStatus(): boolean;
+}
+
+export const VECTOR_DIM = parseInt(process.env.VECTOR_DIMENSION || '1536', 10); // OpenAI embedding dimension
+
+// Copy the chunk and owner fields that are present - some backends reject null metadata
+export function pickChunkMetadata(source: Record<string, any>): ChunkMetadata & { userId?: string } {
+  const metadata: ChunkMetadata & { userId?: string } = {};
+  if (typeof source.userId === 'string') metadata.userId = source.userId;
+  if (typeof source.documentId === 'string') metadata.documentId = source.documentId;
+  if (typeof source.documentName === 'string') metadata.documentName = source.documentName;
+  if (typeof source.messageId === 'string') metadata.messageId = source.messageId;
+  if (typeof source.chunkIndex === 'number') metadata.chunkIndex = source.chunkIndex;
+  if (typeof source.chunkCount === 'number') metadata.chunkCount = source.chunkCount;
+  return metadata;
+}
+
+export function hasVectorFilter(filter?: VectorFilter): filter is VectorFilter {
+  return !!filter && Object.values(filter).some((value) => value !== undefined && value !== '');
+}
+
+// Backends apply the filter after the similarity search: timestamps are stored as
+// ISO strings, which not every backend can range-filter natively
+export function matchesVectorFilter(result: StoredVector, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  if (filter.userId && result.userId !== filter.userId && !(filter.includeUnowned && !result.userId)) return false;
+  if (filter.kind === 'document' && !result.documentId) return false;
+  if (filter.kind === 'conversation' && result.documentId) return false;
+  if (filter.documentId && result.documentId !== filter.documentId) return false;
+  if (filter.source && !result.sources.some((source) => source.toLowerCase().includes(filter.source!.toLowerCase()))) return false;
+  if (filter.from && result.timestamp < filter.from) return false;
+  if (filter.to && result.timestamp > filter.to) return false;
+  return true;
+}
+
+// Rough storage estimate shared by the backends: 4 bytes per float
+export function formatEstimatedSize(vectorCount: number): string {
+  const estimatedSizeMB = Math.round((vectorCount * VECTOR_DIM * 4) / (1024 * 1024));
+  return estimatedSizeMB > 0 ? `~${estimatedSizeMB}MB` : "<1MB";
+}
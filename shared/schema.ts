@@ -1,4 +1,4 @@
-import { pgTable, serial, varchar, text, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, serial, varchar, text, timestamp, uuid, boolean, jsonb, integer, doublePrecision, unique } from 'drizzle-orm/pg-core';
 import { createInsertSchema } from 'drizzle-zod';
 
 // Settings table for storing application configuration
@@ -10,6 +10,236 @@ export const settings = pgTable('settings', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Users table - local username/password accounts
+// admin: shared settings and user roles; member: own chats, memories, documents and
+// personal settings; viewer: can chat and browse, but not change or delete anything
+export const USER_ROLES = ['admin', 'member', 'viewer'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const users = pgTable('users', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  username: varchar('username', { length: 64 }).notNull().unique(),
+  // scrypt hash and salt, see server/services/users.ts
+  passwordHash: text('password_hash').notNull(),
+  role: varchar('role', { length: 16 }).$type<UserRole>().notNull().default('member'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Sessions table - express-session data, see server/services/session-store.ts
+export const sessions = pgTable('sessions', {
+  sid: varchar('sid', { length: 255 }).primaryKey(),
+  sess: jsonb('sess').notNull(),
+  expire: timestamp('expire').notNull(),
+});
+
+// Per-user overrides of the settings table, layered over the global values
+export const userSettings = pgTable('user_settings', {
+  id: serial('id').primaryKey(),
+  userId: uuid('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  key: varchar('key', { length: 255 }).notNull(),
+  value: text('value').notNull(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [unique().on(table.userId, table.key)]);
+
+// chat: conversations and messages; memory:read / memory:write: memories and documents;
+// admin: everything, including settings. A key never gets more than its owner's role allows.
+export const API_KEY_SCOPES = ['chat', 'memory:read', 'memory:write', 'admin'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// API keys table - bearer tokens for scripts, stored as SHA-256 hashes
+export const apiKeys = pgTable('api_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  // The first characters of the key, so it can be recognized in the list
+  prefix: varchar('prefix', { length: 16 }).notNull(),
+  keyHash: text('key_hash').notNull().unique(),
+  scopes: jsonb('scopes').$type<ApiKeyScope[]>().notNull(),
+  expiresAt: timestamp('expires_at'),
+  lastUsedAt: timestamp('last_used_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Prompt versions table - every change to the shared system prompt, so an earlier
+// prompt can be compared and restored. The newest row matches the systemPrompt setting.
+export const promptVersions = pgTable('prompt_versions', {
+  id: serial('id').primaryKey(),
+  content: text('content').notNull(),
+  // Null for the prompt found when version history was first set up
+  authorId: uuid('author_id').references(() => users.id, { onDelete: 'set null' }),
+  note: text('note'),
+  // The version this one restored, for rollbacks
+  restoredFrom: integer('restored_from'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export interface PromptDiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Line diff from one version to another; from is null when diffing the first version
+export interface PromptDiff {
+  from: PromptVersion | null;
+  to: PromptVersion;
+  lines: PromptDiffLine[];
+}
+
+// Conversations table - one row per chat thread
+export const conversations = pgTable('conversations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  // Null only for conversations from before accounts, until the first account claims them
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  title: varchar('title', { length: 255 }).notNull().default('New conversation'),
+  archived: boolean('archived').notNull().default(false),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// A retrieved memory or document chunk given to the model, cited in the answer as [index]
+export interface MessageSource {
+  index: number;
+  id: string;
+  title: string;
+  snippet: string;
+  similarity: number;
+  timestamp: string;
+  documentId?: string;
+  documentName?: string;
+  keywordMatch?: boolean;
+}
+
+// Whether a saved answer's vectors are actually present in the vector store.
+// 'unverified' covers answers saved before vector IDs were recorded.
+export type MemoryStatus = 'stored' | 'partial' | 'missing' | 'unverified';
+
+// Estimated prompt tokens per part for one chat request, after fitting the
+// model's context window. total includes the output reserved by maxTokens.
+export interface TokenBreakdown {
+  model: string;
+  contextWindow: number;
+  systemPrompt: number;
+  history: number;
+  context: number;
+  query: number;
+  reservedOutput: number;
+  total: number;
+  droppedHistory: number;
+  droppedContext: number;
+  trimmedContext: number;
+}
+
+// Tokens used and estimated cost in USD for one request, across all models it called.
+// estimated is true when a provider didn't report usage and tokens were counted locally.
+export interface UsageSummary {
+  inputTokens: number;
+  outputTokens: number;
+  embeddingTokens: number;
+  cost: number;
+  estimated: boolean;
+}
+
+// Extra details returned with a chat response, not stored with the message
+export interface ChatResponseMetadata {
+  rewrittenQuery: string | null;
+  tokens: TokenBreakdown;
+  usage: UsageSummary | null;
+}
+
+// Whether an answer is worth keeping in memory, decided when it is generated
+export interface MemoryDecision {
+  action: 'auto_save' | 'prompt_user' | 'skip';
+  reason: string;
+  confidence: number;
+}
+
+// An existing memory that is nearly the same as an answer being saved
+export interface DuplicateMatch {
+  id: string;
+  query: string;
+  snippet: string;
+  similarity: number;
+  messageId?: string;
+}
+
+export const DUPLICATE_RESOLUTIONS = ['merge', 'replace', 'keep_both'] as const;
+export type DuplicateResolution = typeof DUPLICATE_RESOLUTIONS[number];
+
+// Outcome of the duplicate check made when an answer is saved. 'found' means
+// nothing was saved yet and the caller should pick a resolution.
+export interface DuplicateCheck {
+  status: 'unique' | 'found' | 'merged' | 'replaced' | 'kept_both';
+  matches: DuplicateMatch[];
+}
+
+// Messages table - user and assistant turns belonging to a conversation
+export const messages = pgTable('messages', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  conversationId: uuid('conversation_id')
+    .notNull()
+    .references(() => conversations.id, { onDelete: 'cascade' }),
+  role: varchar('role', { length: 16 }).$type<'user' | 'assistant'>().notNull(),
+  content: text('content').notNull(),
+  sources: jsonb('sources').$type<MessageSource[]>().notNull().default([]),
+  savedToVector: boolean('saved_to_vector').notNull().default(false),
+  // IDs of the vectors written when the answer was saved, so it can be removed exactly
+  vectorIds: jsonb('vector_ids').$type<string[]>().notNull().default([]),
+  timestamp: timestamp('timestamp').defaultNow().notNull(),
+});
+
+export const USAGE_OPERATIONS = ['chat', 'memory', 'document', 'search'] as const;
+export type UsageOperation = typeof USAGE_OPERATIONS[number];
+
+// Token usage table - one row per model per request. Rows outlive their message
+// so daily totals survive clearing chat history.
+export const tokenUsage = pgTable('token_usage', {
+  id: serial('id').primaryKey(),
+  // The account that made the request; null for usage recorded before accounts
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+  messageId: uuid('message_id').references(() => messages.id, { onDelete: 'set null' }),
+  operation: varchar('operation', { length: 16 }).$type<UsageOperation>().notNull(),
+  model: varchar('model', { length: 255 }).notNull(),
+  inputTokens: integer('input_tokens').notNull().default(0),
+  outputTokens: integer('output_tokens').notNull().default(0),
+  embeddingTokens: integer('embedding_tokens').notNull().default(0),
+  // Estimated USD at the prices configured when the request was made
+  cost: doublePrecision('cost').notNull().default(0),
+  estimated: boolean('estimated').notNull().default(false),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Usage per model for one day (YYYY-MM-DD, server time)
+export interface DailyUsage {
+  date: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  embeddingTokens: number;
+  cost: number;
+  requests: number;
+}
+
+export interface UsageStats {
+  days: number;
+  daily: DailyUsage[];
+  totals: Omit<UsageSummary, 'estimated'>;
+}
+
+// Documents table - uploaded files whose chunks are indexed in the vector store
+export const documents = pgTable('documents', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  filename: varchar('filename', { length: 255 }).notNull(),
+  mimeType: varchar('mime_type', { length: 100 }).notNull(),
+  size: integer('size').notNull(),
+  chunkCount: integer('chunk_count').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Insert schema for settings
 export const insertSettingSchema = createInsertSchema(settings).omit({
   id: true,
@@ -17,6 +247,35 @@ export const insertSettingSchema = createInsertSchema(settings).omit({
   updatedAt: true,
 });
 
+// Insert schema for conversations
+export const insertConversationSchema = createInsertSchema(conversations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Insert schema for messages
+export const insertMessageSchema = createInsertSchema(messages).omit({
+  id: true,
+  timestamp: true,
+});
+
 // Types
+export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, 'passwordHash'>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type PublicApiKey = Omit<ApiKey, 'keyHash'>;
+// Returned once when a key is created; only the hash is kept
+export type CreatedApiKey = PublicApiKey & { key: string };
+// With the author's username joined in
+export type PromptVersion = typeof promptVersions.$inferSelect & { authorName: string | null };
 export type InsertSetting = typeof settings.$inferInsert;
-export type SelectSetting = typeof settings.$inferSelect;
\ No newline at end of file
+export type SelectSetting = typeof settings.$inferSelect;
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertConversation = typeof conversations.$inferInsert;
+export type ChatMessage = typeof messages.$inferSelect;
+export type KnowledgeDocument = typeof documents.$inferSelect;
+export type InsertKnowledgeDocument = typeof documents.$inferInsert;
+export type InsertChatMessage = typeof messages.$inferInsert;
+export type TokenUsageRecord = typeof tokenUsage.$inferSelect;
+export type InsertTokenUsage = typeof tokenUsage.$inferInsert;